@@ -5,36 +5,142 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Switch } from "@/components/ui/switch"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
 import { Label } from "@/components/ui/label"
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, ReferenceArea } from "recharts"
 import VideoRecorder from "@/components/video-recorder"
 import FeetTracker from "@/components/feet-tracker"
+import VideoFileAnalyzer from "@/components/video-file-analyzer"
+import CalibrationPanel from "@/components/calibration-panel"
+import TracePanel from "@/components/trace-panel"
+import SessionHistory from "@/components/session-history"
+import SessionSummary from "@/components/session-summary"
+import RsiSummary from "@/components/rsi-summary"
+import CountermovementSummary from "@/components/countermovement-summary"
+import AsymmetrySummary from "@/components/asymmetry-summary"
+import JointAngleSummary from "@/components/joint-angle-summary"
+import ReachPanel from "@/components/reach-panel"
+import SettingsPanel from "@/components/settings-panel"
+import JumpList from "@/components/jump-list"
+import LsiSummary from "@/components/lsi-summary"
+import AthleteSelector from "@/components/athlete-selector"
 import { ThemeProvider } from "@/components/theme-provider"
 import ThemeToggle from "@/components/theme-toggle"
-import { FlipHorizontal } from "lucide-react"
+import { Download, FlipHorizontal } from "lucide-react"
+import { formatJumpHeight } from "@/lib/height-method"
+import { validateJump } from "@/lib/jump-validation"
+import { isAsymmetric } from "@/lib/asymmetry"
+import type { JointAngles } from "@/lib/joint-angles"
+import { reachCm } from "@/lib/reach"
+import { type Calibration, type CalibrationRequest, pixelsToCm } from "@/lib/calibration"
+import type { JumpResult } from "@/lib/jump-detector"
+import { type PoseTrace, replayTrace } from "@/lib/pose-trace"
+import { fileExtensionForMimeType } from "@/lib/media-recorder"
+import { type JumpProtocol, PROTOCOL_LABELS, isReactiveProtocol } from "@/lib/protocol"
+import { useAthletes } from "@/hooks/use-athletes"
+import { useSettings } from "@/hooks/use-settings"
+import {
+  type NewSession,
+  type SessionDatum,
+  type SessionJump,
+  type SessionSource,
+  type StoredSession,
+  saveSession,
+  updateSession,
+} from "@/lib/session-store"
+
+// Lines on the Jump Height Analysis chart; angles share a second axis in degrees
+const CHART_SERIES = [
+  { key: "leftFoot", name: "Left Foot", color: "#3b82f6", angle: false },
+  { key: "rightFoot", name: "Right Foot", color: "#10b981", angle: false },
+  { key: "minHeight", name: "Min Height", color: "#ef4444", angle: false },
+  { key: "hipAngle", name: "Hip", color: "#a855f7", angle: true },
+  { key: "kneeAngle", name: "Knee", color: "#f97316", angle: true },
+  { key: "ankleAngle", name: "Ankle", color: "#14b8a6", angle: true },
+]
 
 export default function Home() {
   const [isRecording, setIsRecording] = useState(false)
   const [showTracking, setShowTracking] = useState(true)
-  const [feetData, setFeetData] = useState<
-    { timestamp: number; leftFoot: number; rightFoot: number; minHeight: number }[]
-  >([])
+  const [feetData, setFeetData] = useState<SessionDatum[]>([])
+  const [jumps, setJumps] = useState<SessionJump[]>([])
   const [activeTab, setActiveTab] = useState("live")
   const [cameraFacingMode, setCameraFacingMode] = useState<"user" | "environment">("environment")
+  const [protocol, setProtocol] = useState<JumpProtocol>("standard")
+  const [calibration, setCalibration] = useState<Calibration | null>(null)
+  const [calibrationRequest, setCalibrationRequest] = useState<CalibrationRequest | null>(null)
+  const [calibrationError, setCalibrationError] = useState<string | null>(null)
+  const [lastTrace, setLastTrace] = useState<PoseTrace | null>(null)
+  const [jumpsTrace, setJumpsTrace] = useState<PoseTrace | null>(null) // the analyzed clip the charted jumps came from
+  const [recordOverlay, setRecordOverlay] = useState(false)
+  const [annotatedClip, setAnnotatedClip] = useState<{ url: string; extension: string } | null>(null)
+  const [historyKey, setHistoryKey] = useState(0)
+  const [reachRequested, setReachRequested] = useState(false)
+  const [reachError, setReachError] = useState<string | null>(null)
+  const [measuredReachCm, setMeasuredReachCm] = useState<number | null>(null) // when no athlete is selected
+  const [visibleSeries, setVisibleSeries] = useState(["leftFoot", "rightFoot", "minHeight"])
+  const { athletes, activeAthlete, setActiveAthleteId, saveAthlete } = useAthletes()
+  const { settings, loaded: settingsLoaded, updateSettings } = useSettings()
+  const [sessionAthleteId, setSessionAthleteId] = useState<string | null>(null) // who the charted jumps belong to
+
+  // Refs for buffering graph data and the frame time the recording started at
+  const graphBufferRef = useRef<SessionDatum[]>([])
+  const startTimeRef = useRef<number | null>(null) // ms on the detector's frame clock
+  const recordingTabRef = useRef<string | null>(null)
+  // Jumps of the live recording; the detector flushes the last one in FeetTracker's cleanup, after this render
+  const liveJumpsRef = useRef<SessionJump[]>([])
+  const savedSessionRef = useRef<Promise<StoredSession | null> | null>(null)
+
+  // Store a finished session in the local history
+  const persistSession = (session: NewSession) => {
+    savedSessionRef.current = saveSession(session)
+      .then((stored) => {
+        setHistoryKey((key) => key + 1)
+        return stored
+      })
+      .catch((err) => {
+        console.error("Error saving session:", err)
+        return null
+      })
+  }
 
-  // Refs for buffering graph data and tracking recording start time
-  const graphBufferRef = useRef<
-    { timestamp: number; leftFoot: number; rightFoot: number; minHeight: number }[]
-  >([])
-  const startTimeRef = useRef<number>(0)
+  // Apply changes to the most recently saved session
+  const updateSavedSession = (changes: Partial<NewSession>) => {
+    savedSessionRef.current
+      ?.then((stored) => (stored ? updateSession(stored.id, changes) : null))
+      .then(() => setHistoryKey((key) => key + 1))
+      .catch((err) => console.error("Error updating session:", err))
+  }
 
-  // Reset graph data and initialize buffer when recording starts
+  // Reset graph data and initialize buffer when recording starts; save live sessions when it stops
   useEffect(() => {
     if (isRecording) {
       setFeetData([])
+      setJumps([])
+      setJumpsTrace(null)
+      liveJumpsRef.current = []
       graphBufferRef.current = []
-      startTimeRef.current = Date.now()
+      startTimeRef.current = null
+      recordingTabRef.current = activeTab
+      setSessionAthleteId(activeAthlete?.id ?? null)
+      savedSessionRef.current = null
+      return
     }
+    if (recordingTabRef.current !== "live") return
+    recordingTabRef.current = null
+    const timeSeries = [...feetData, ...graphBufferRef.current]
+    graphBufferRef.current = []
+    setFeetData(timeSeries)
+    if (timeSeries.length === 0) return
+    persistSession({
+      source: "live",
+      athleteId: activeAthlete?.id ?? null,
+      jumps: liveJumpsRef.current,
+      timeSeries,
+      settings: { calibration, facingMode: cameraFacingMode, protocol },
+      video: null,
+    })
   }, [isRecording])
 
   // Flush buffered graph data once per second
@@ -50,19 +156,148 @@ export default function Home() {
     }
   }, [isRecording])
 
+  const toFeetDatum = (timestamp: number, leftFoot: number, rightFoot: number, angles?: JointAngles): SessionDatum => ({
+    timestamp,
+    leftFoot,
+    rightFoot,
+    minHeight: leftFoot !== 0 && rightFoot !== 0 ? Math.min(leftFoot, rightFoot) : Math.max(leftFoot, rightFoot),
+    hipAngle: angles?.hip ?? null,
+    kneeAngle: angles?.knee ?? null,
+    ankleAngle: angles?.ankle ?? null,
+  })
+
   // Modified callback to push data into buffer rather than updating state immediately
-  const handleFeetHeightUpdate = (leftFoot: number, rightFoot: number) => {
-    const minHeight =
-      leftFoot !== 0 && rightFoot !== 0 ? Math.min(leftFoot, rightFoot) : Math.max(leftFoot, rightFoot)
-    const timestamp = startTimeRef.current ? (Date.now() - startTimeRef.current) / 1000 : 0
-    graphBufferRef.current.push({
-      timestamp,
-      leftFoot,
-      rightFoot,
-      minHeight,
+  // Samples are charted by frame time, so inference delay does not shift them
+  const handleFeetHeightUpdate = (leftFoot: number, rightFoot: number, angles: JointAngles, frameTime: number) => {
+    startTimeRef.current ??= frameTime
+    graphBufferRef.current.push(toFeetDatum((frameTime - startTimeRef.current) / 1000, leftFoot, rightFoot, angles))
+  }
+
+  // Mark each detected jump on the chart at the frame it landed, not when the detector reported it
+  const handleJump = (result: JumpResult) => {
+    const timestamp = startTimeRef.current !== null ? (result.landingTime - startTimeRef.current) / 1000 : 0
+    const jump = { ...result, timestamp }
+    liveJumpsRef.current = [...liveJumpsRef.current, jump]
+    setJumps((prev) => [...prev, jump])
+  }
+
+  // Keep only the latest annotated clip in memory
+  useEffect(() => {
+    return () => {
+      if (annotatedClip) URL.revokeObjectURL(annotatedClip.url)
+    }
+  }, [annotatedClip])
+
+  const handleOverlayRecorded = (video: Blob) => {
+    setAnnotatedClip({ url: URL.createObjectURL(video), extension: fileExtensionForMimeType(video.type) })
+    updateSavedSession({ video })
+  }
+
+  // Rebuild the chart from a recorded trace instead of the live camera
+  const handleReplayTrace = (trace: PoseTrace, source: SessionSource = "trace", video?: Blob) => {
+    const { samples, jumps: replayedJumps } = replayTrace(trace, { calibration })
+    const startTime = trace.frames[0]?.timestamp ?? 0
+    const timeSeries = samples.map((sample) =>
+      toFeetDatum((sample.timestamp - startTime) / 1000, sample.leftFootHeight, sample.rightFootHeight, sample.jointAngles)
+    )
+    const sessionJumps = replayedJumps.map((jump) => ({ ...jump, timestamp: (jump.landingTime - startTime) / 1000 }))
+    setFeetData(timeSeries)
+    setJumps(sessionJumps)
+    setJumpsTrace(trace)
+    setLastTrace(trace)
+    setSessionAthleteId(activeAthlete?.id ?? null)
+    persistSession({
+      source,
+      athleteId: activeAthlete?.id ?? null,
+      jumps: sessionJumps,
+      timeSeries,
+      settings: { calibration, facingMode: cameraFacingMode, protocol },
+      video: video ?? null,
+    })
+  }
+
+  // Hand-reviewed jumps replace the detected ones on the chart
+  const handleJumpsReviewed = (reviewedJumps: JumpResult[]) => {
+    const startTime = jumpsTrace?.frames[0]?.timestamp ?? 0
+    const sessionJumps = reviewedJumps.map((jump) => ({ ...jump, timestamp: (jump.landingTime - startTime) / 1000 }))
+    setJumps(sessionJumps)
+    updateSavedSession({ jumps: sessionJumps })
+  }
+
+  // Coaches drop jumps that are not valid measurements; the rest keep their numbers
+  // and the review player shows the same list, so later edits do not bring them back
+  const handleDiscardJump = (jumpNumber: number) => {
+    const remaining = jumps.filter((jump) => jump.jumpNumber !== jumpNumber)
+    setJumps(remaining)
+    updateSavedSession({ jumps: remaining })
+  }
+
+  // Show a saved session on the chart with the calibration it was measured with
+  const handleLoadSession = (session: StoredSession) => {
+    setIsRecording(false)
+    savedSessionRef.current = Promise.resolve(session)
+    setFeetData(session.timeSeries)
+    setJumps(session.jumps)
+    setJumpsTrace(null)
+    setCalibration(session.settings.calibration)
+    setProtocol(session.settings.protocol)
+    setSessionAthleteId(session.athleteId)
+  }
+
+  const handleRequestCalibration = (request: CalibrationRequest | null) => {
+    setCalibrationError(null)
+    setCalibrationRequest(request)
+  }
+
+  // Keep the measured standing reach on the athlete's profile
+  const handleReachMeasured = (wristAboveAnklePx: number | null) => {
+    setReachRequested(false)
+    if (wristAboveAnklePx === null || wristAboveAnklePx <= 0 || !calibration) {
+      setReachError("Could not see the raised wrist and ankles.")
+      return
+    }
+    setReachError(null)
+    const measured = Math.round(reachCm(wristAboveAnklePx, calibration, activeAthlete?.standingHeightCm ?? null) * 10) / 10
+    if (!activeAthlete) {
+      setMeasuredReachCm(measured)
+      return
+    }
+    const { id, createdAt, ...profile } = activeAthlete
+    saveAthlete({ ...profile, standingReachCm: measured }, id).catch((err) => {
+      console.error("Error saving standing reach:", err)
+      setReachError("Could not save standing reach.")
     })
   }
 
+  const handleCalibrate = (result: Calibration | null) => {
+    setCalibrationRequest(null)
+    if (result) {
+      setCalibration(result)
+      setCalibrationError(null)
+    } else {
+      setCalibrationError("Calibration failed. Make sure the athlete or reference points are clearly visible.")
+    }
+  }
+
+  // Chart in centimetres once a calibration is available
+  const chartData = calibration
+    ? feetData.map((d) => ({
+        ...d,
+        leftFoot: pixelsToCm(d.leftFoot, calibration),
+        rightFoot: pixelsToCm(d.rightFoot, calibration),
+        minHeight: pixelsToCm(d.minHeight, calibration),
+      }))
+    : feetData
+  const heightUnit = calibration ? "cm" : "px"
+  const chartSeries = CHART_SERIES.filter((series) => visibleSeries.includes(series.key))
+  const showAngles = chartSeries.some((series) => series.angle)
+  const sessionAthlete = athletes.find((athlete) => athlete.id === sessionAthleteId) ?? null
+
+  const changeTab = (tab: string) => {
+    setIsRecording(false)
+    setActiveTab(tab)
+  }
+
   const toggleCamera = () => {
     if (isRecording) {
       setIsRecording(false)
@@ -88,6 +323,22 @@ export default function Home() {
                 <div className="flex justify-between items-center">
                   <CardTitle>Video Feed</CardTitle>
                   <div className="flex items-center space-x-4">
+                    <Select
+                      value={protocol}
+                      onValueChange={(value) => setProtocol(value as JumpProtocol)}
+                      disabled={isRecording}
+                    >
+                      <SelectTrigger className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(PROTOCOL_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                     <Button
                       variant="outline"
                       size="icon"
@@ -100,65 +351,291 @@ export default function Home() {
                       <Switch id="tracking-overlay" checked={showTracking} onCheckedChange={setShowTracking} />
                       <Label htmlFor="tracking-overlay">Tracking Overlay</Label>
                     </div>
+                    {activeTab === "live" && (
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="record-overlay"
+                          checked={recordOverlay}
+                          onCheckedChange={setRecordOverlay}
+                          disabled={isRecording}
+                        />
+                        <Label htmlFor="record-overlay">Export Annotated Video</Label>
+                      </div>
+                    )}
                   </div>
                 </div>
               </CardHeader>
               <CardContent>
                 <div className="relative aspect-video bg-black rounded-md overflow-hidden">
-                  {activeTab === "live" ? (
+                  {!settingsLoaded ? null : activeTab === "live" ? (
                     <FeetTracker
                       isRecording={isRecording}
                       showTracking={showTracking}
                       onFeetHeightUpdate={handleFeetHeightUpdate}
+                      onJump={handleJump}
+                      calibration={calibration}
+                      calibrationRequest={calibrationRequest}
+                      onCalibrate={handleCalibrate}
+                      onTraceRecorded={setLastTrace}
+                      recordOverlay={recordOverlay}
+                      onOverlayRecorded={handleOverlayRecorded}
                       facingMode={cameraFacingMode}
+                      bodyMassKg={activeAthlete?.bodyMassKg}
+                      protocol={protocol}
+                      heightMethod={settings.heightMethod}
+                      reachRequested={reachRequested}
+                      onReachMeasured={handleReachMeasured}
+                      poseModel={settings.poseModel}
+                      capturePreference={settings.capturePreference}
+                    />
+                  ) : activeTab === "upload" ? (
+                    <VideoFileAnalyzer
+                      calibration={calibration}
+                      onAnalyzed={(trace, video) => handleReplayTrace(trace, "upload", video)}
+                      reviewedJumps={jumps}
+                      reviewedTrace={jumpsTrace}
+                      onJumpsReviewed={handleJumpsReviewed}
+                      poseModel={settings.poseModel}
                     />
                   ) : (
-                    <VideoRecorder isRecording={isRecording} facingMode={cameraFacingMode} />
+                    <VideoRecorder
+                      isRecording={isRecording}
+                      facingMode={cameraFacingMode}
+                      calibration={calibration}
+                      onAnalyzed={(trace, video) => handleReplayTrace(trace, "recording", video)}
+                      reviewedJumps={jumps}
+                      reviewedTrace={jumpsTrace}
+                      onJumpsReviewed={handleJumpsReviewed}
+                      poseModel={settings.poseModel}
+                      capturePreference={settings.capturePreference}
+                    />
                   )}
                 </div>
                 <div className="flex justify-between mt-4">
-                  <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-                    <TabsList className="grid w-full max-w-md grid-cols-2">
+                  <Tabs value={activeTab} onValueChange={changeTab} className="w-full">
+                    <TabsList className="grid w-full max-w-md grid-cols-3">
                       <TabsTrigger value="live">Live Analysis</TabsTrigger>
                       <TabsTrigger value="record">Record Video</TabsTrigger>
+                      <TabsTrigger value="upload">Upload Video</TabsTrigger>
                     </TabsList>
                   </Tabs>
-                  <Button
-                    variant={isRecording ? "destructive" : "default"}
-                    onClick={() => setIsRecording(!isRecording)}
-                  >
-                    {isRecording ? "Stop" : "Start"} {activeTab === "record" ? "Recording" : "Analysis"}
-                  </Button>
+                  {activeTab !== "upload" && (
+                    <Button
+                      variant={isRecording ? "destructive" : "default"}
+                      onClick={() => setIsRecording(!isRecording)}
+                    >
+                      {isRecording ? "Stop" : "Start"} {activeTab === "record" ? "Recording" : "Analysis"}
+                    </Button>
+                  )}
                 </div>
+                {activeTab === "live" && annotatedClip && !isRecording && (
+                  <div className="flex justify-end mt-2">
+                    <Button variant="outline" size="sm" asChild>
+                      <a href={annotatedClip.url} download={`verticai-annotated.${annotatedClip.extension}`}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Download Annotated Video
+                      </a>
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
-            <Card>
-              <CardHeader>
-                <CardTitle>Jump Height Analysis</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="h-[400px] overflow-x-auto">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={feetData} margin={{ bottom: 30, right: 50 }}>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis
-                        dataKey="timestamp"
-                        label={{ value: "Time (s)", position: "insideBottom", offset: -10 }}
-                        type="number"
-                        domain={['auto', 'auto']}
-                        allowDataOverflow
-                      />
-                      <YAxis label={{ value: "Height (px)", angle: -90, position: "insideLeft" }} />
-                      <Tooltip formatter={(value, name, props) => [`${value} px`, `${props.payload.timestamp.toFixed(2)} s`]} />
-                      <Line type="monotone" dataKey="leftFoot" stroke="#3b82f6" name="Left Foot" strokeWidth={2} dot={false} />
-                      <Line type="monotone" dataKey="rightFoot" stroke="#10b981" name="Right Foot" strokeWidth={2} dot={false} />
-                      <Line type="monotone" dataKey="minHeight" stroke="#ef4444" name="Min Height" strokeWidth={2} dot={false} />
-                    </LineChart>
-                  </ResponsiveContainer>
-                </div>
-              </CardContent>
-            </Card>
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Athlete</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <AthleteSelector
+                    athletes={athletes}
+                    activeAthlete={activeAthlete}
+                    disabled={isRecording}
+                    onSelect={setActiveAthleteId}
+                    onSave={saveAthlete}
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="space-y-3">
+                  <CardTitle>Jump Height Analysis</CardTitle>
+                  <ToggleGroup
+                    type="multiple"
+                    size="sm"
+                    variant="outline"
+                    value={visibleSeries}
+                    onValueChange={setVisibleSeries}
+                    className="flex-wrap justify-start"
+                  >
+                    {CHART_SERIES.map((series) => (
+                      <ToggleGroupItem key={series.key} value={series.key} className="h-7 text-xs">
+                        <span className="mr-1 h-2 w-2 rounded-full" style={{ backgroundColor: series.color }} />
+                        {series.name}
+                      </ToggleGroupItem>
+                    ))}
+                  </ToggleGroup>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-[400px] overflow-x-auto">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={chartData} margin={{ bottom: 30, right: 50 }}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                          dataKey="timestamp"
+                          label={{ value: "Time (s)", position: "insideBottom", offset: -10 }}
+                          type="number"
+                          domain={['auto', 'auto']}
+                          allowDataOverflow
+                        />
+                        <YAxis label={{ value: `Height (${heightUnit})`, angle: -90, position: "insideLeft" }} />
+                        {showAngles && (
+                          <YAxis
+                            yAxisId="angle"
+                            orientation="right"
+                            domain={[0, 180]}
+                            label={{ value: "Angle (°)", angle: 90, position: "insideRight" }}
+                          />
+                        )}
+                        <Tooltip
+                          formatter={(value, name, props) => [
+                            `${Number(value).toFixed(1)} ${String(props.dataKey).endsWith("Angle") ? "°" : heightUnit}`,
+                            `${name} @ ${props.payload.timestamp.toFixed(2)} s`,
+                          ]}
+                        />
+                        {chartSeries.map((series) => (
+                          <Line
+                            key={series.key}
+                            type="monotone"
+                            dataKey={series.key}
+                            yAxisId={series.angle ? "angle" : undefined}
+                            stroke={series.color}
+                            name={series.name}
+                            strokeWidth={2}
+                            dot={false}
+                            connectNulls
+                          />
+                        ))}
+                        {/* Shade the flight of asymmetric jumps */}
+                        {jumps.filter(isAsymmetric).map((jump) => (
+                          <ReferenceArea
+                            key={`asymmetry-${jump.jumpNumber}`}
+                            x1={jump.timestamp - jump.flightTime}
+                            x2={jump.timestamp}
+                            fill="#8b5cf6"
+                            fillOpacity={0.2}
+                          />
+                        ))}
+                        {jumps.map((jump, index) => (
+                          <ReferenceLine
+                            key={index}
+                            x={jump.timestamp}
+                            stroke={validateJump(jump).valid ? "#f59e0b" : "#ef4444"}
+                            strokeDasharray="4 4"
+                            label={{
+                              value: formatJumpHeight(jump, settings.heightMethod),
+                              position: "top",
+                              fontSize: 10,
+                            }}
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <SessionSummary
+                    jumps={jumps}
+                    bodyMassKg={sessionAthlete?.bodyMassKg}
+                    heightMethod={settings.heightMethod}
+                  />
+                  {isReactiveProtocol(protocol) ? (
+                    <RsiSummary jumps={jumps} protocol={protocol} />
+                  ) : (
+                    <>
+                      <CountermovementSummary jumps={jumps} calibration={calibration} />
+                      <AsymmetrySummary jumps={jumps} />
+                    </>
+                  )}
+                  <JointAngleSummary jumps={jumps} />
+                </CardContent>
+              </Card>
+              {protocol === "singleLeg" && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Limb Symmetry</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <LsiSummary jumps={jumps} heightMethod={settings.heightMethod} />
+                  </CardContent>
+                </Card>
+              )}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Jumps</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <JumpList
+                    jumps={jumps}
+                    heightMethod={settings.heightMethod}
+                    disabled={isRecording}
+                    onDiscard={handleDiscardJump}
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Reach</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ReachPanel
+                    jumps={jumps}
+                    standingReachCm={(sessionAthlete ?? activeAthlete)?.standingReachCm ?? measuredReachCm}
+                    statureCm={(sessionAthlete ?? activeAthlete)?.standingHeightCm ?? null}
+                    canMeasure={activeTab === "live" && calibration !== null}
+                    measuring={reachRequested}
+                    error={reachError}
+                    onMeasure={() => setReachRequested(true)}
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Calibration</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <CalibrationPanel
+                    calibration={calibration}
+                    pendingRequest={calibrationRequest}
+                    calibrationError={calibrationError}
+                    defaultStatureCm={activeAthlete?.standingHeightCm}
+                    onRequestCalibration={handleRequestCalibration}
+                    onClearCalibration={() => setCalibration(null)}
+                  />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Settings</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SettingsPanel settings={settings} disabled={isRecording} onChange={updateSettings} />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Pose Trace</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <TracePanel lastTrace={lastTrace} disabled={isRecording} onReplay={(trace) => handleReplayTrace(trace)} />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <SessionHistory refreshKey={historyKey} athletes={athletes} onLoad={handleLoadSession} />
+                </CardContent>
+              </Card>
+            </div>
           </div>
         </div>
       </main>
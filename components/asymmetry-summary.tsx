@@ -0,0 +1,64 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { JumpResult } from "@/lib/jump-detector"
+import { ASYMMETRY_THRESHOLD, asymmetryScore, sessionAsymmetryScore } from "@/lib/asymmetry"
+
+interface AsymmetrySummaryProps {
+  jumps: JumpResult[]
+}
+
+const signedMs = (ms: number | null) => (ms === null ? "-" : `${ms > 0 ? "+" : ""}${Math.round(ms)}`)
+
+// Left-versus-right takeoff, landing and peak differences of two-footed jumps
+export default function AsymmetrySummary({ jumps }: AsymmetrySummaryProps) {
+  const bilateral = jumps.filter((jump) => jump.asymmetry)
+  if (bilateral.length === 0) return null
+  const sessionScore = sessionAsymmetryScore(bilateral)
+
+  return (
+    <div className="mt-4 space-y-2">
+      <p className="text-sm font-medium">Bilateral Asymmetry</p>
+      <div className="max-h-60 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Takeoff (ms)</TableHead>
+              <TableHead>Landing (ms)</TableHead>
+              <TableHead>Peak diff</TableHead>
+              <TableHead>Score</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bilateral.map((jump) => {
+              const asymmetry = jump.asymmetry!
+              const score = asymmetryScore(jump)
+              return (
+                <TableRow
+                  key={jump.jumpNumber}
+                  className={score !== null && score > ASYMMETRY_THRESHOLD ? "text-violet-500" : ""}
+                >
+                  <TableCell>{jump.jumpNumber}</TableCell>
+                  <TableCell>{signedMs(asymmetry.takeoffOffset)}</TableCell>
+                  <TableCell>{signedMs(asymmetry.landingOffset)}</TableCell>
+                  <TableCell>
+                    {asymmetry.peakDifferenceCm !== null
+                      ? `${asymmetry.peakDifferenceCm.toFixed(1)} cm`
+                      : `${asymmetry.peakDifferencePx.toFixed(0)} px`}
+                  </TableCell>
+                  <TableCell>{score !== null ? `${score.toFixed(0)}%` : "-"}</TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {sessionScore !== null && `Session asymmetry ${sessionScore.toFixed(0)}%. `}
+        Positive values mean the left foot left or landed later, or rose higher. Jumps above {ASYMMETRY_THRESHOLD}% are
+        highlighted.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { type AthleteProfile, SPORTS, athleteSchema } from "@/lib/athlete-store"
+
+interface AthleteFormProps {
+  defaultValues?: Partial<AthleteProfile>
+  submitLabel?: string
+  onSubmit: (profile: AthleteProfile) => void | Promise<void>
+}
+
+export default function AthleteForm({ defaultValues, submitLabel = "Save Athlete", onSubmit }: AthleteFormProps) {
+  const form = useForm<AthleteProfile>({
+    resolver: zodResolver(athleteSchema),
+    defaultValues: {
+      name: "",
+      sport: "Basketball",
+      ...defaultValues,
+    },
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Athlete name" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="bodyMassKg"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Body mass (kg)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.1" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="standingHeightCm"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Standing height (cm)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.1" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="standingReachCm"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Standing reach (cm)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.1" placeholder="Optional" {...field} value={field.value ?? ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="sport"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Sport</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {SPORTS.map((sport) => (
+                      <SelectItem key={sport} value={sport}>
+                        {sport}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,94 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Pencil, UserPlus } from "lucide-react"
+import AthleteForm from "./athlete-form"
+import type { Athlete, AthleteProfile } from "@/lib/athlete-store"
+
+interface AthleteSelectorProps {
+  athletes: Athlete[]
+  activeAthlete: Athlete | null
+  disabled?: boolean
+  onSelect: (id: string | null) => void
+  onSave: (profile: AthleteProfile, id?: string) => Promise<unknown>
+}
+
+const NO_ATHLETE = "none"
+
+export default function AthleteSelector({ athletes, activeAthlete, disabled = false, onSelect, onSave }: AthleteSelectorProps) {
+  const [editing, setEditing] = useState<Athlete | "new" | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (profile: AthleteProfile) => {
+    try {
+      await onSave(profile, editing && editing !== "new" ? editing.id : undefined)
+      setError(null)
+      setEditing(null)
+    } catch (err) {
+      console.error("Error saving athlete:", err)
+      setError("Could not save athlete profile.")
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Select
+          value={activeAthlete?.id ?? NO_ATHLETE}
+          onValueChange={(value) => onSelect(value === NO_ATHLETE ? null : value)}
+          disabled={disabled}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select athlete" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_ATHLETE}>No athlete</SelectItem>
+            {athletes.map((athlete) => (
+              <SelectItem key={athlete.id} value={athlete.id}>
+                {athlete.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Edit athlete"
+          disabled={disabled || !activeAthlete}
+          onClick={() => setEditing(activeAthlete)}
+        >
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" title="New athlete" disabled={disabled} onClick={() => setEditing("new")}>
+          <UserPlus className="h-4 w-4" />
+        </Button>
+      </div>
+      {activeAthlete && (
+        <p className="text-xs text-muted-foreground">
+          {activeAthlete.sport} · {activeAthlete.bodyMassKg} kg · {activeAthlete.standingHeightCm} cm
+          {activeAthlete.standingReachCm !== undefined && ` · reach ${activeAthlete.standingReachCm} cm`}
+        </p>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Athlete" : "Edit Athlete"}</DialogTitle>
+            <DialogDescription>Body mass and height are used for calibration and power estimates.</DialogDescription>
+          </DialogHeader>
+          {editing !== null && (
+            <AthleteForm
+              key={editing === "new" ? "new" : editing.id}
+              defaultValues={editing === "new" ? undefined : editing}
+              onSubmit={handleSubmit}
+            />
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import type { Calibration, CalibrationRequest } from "@/lib/calibration"
+
+interface CalibrationPanelProps {
+  calibration: Calibration | null
+  pendingRequest: CalibrationRequest | null
+  calibrationError: string | null
+  defaultStatureCm?: number // from the active athlete's profile
+  onRequestCalibration: (request: CalibrationRequest | null) => void
+  onClearCalibration: () => void
+}
+
+export default function CalibrationPanel({
+  calibration,
+  pendingRequest,
+  calibrationError,
+  defaultStatureCm,
+  onRequestCalibration,
+  onClearCalibration,
+}: CalibrationPanelProps) {
+  const [statureCm, setStatureCm] = useState("")
+  const [distanceCm, setDistanceCm] = useState("")
+
+  // Prefill with the selected athlete's height
+  useEffect(() => {
+    setStatureCm(defaultStatureCm !== undefined ? String(defaultStatureCm) : "")
+  }, [defaultStatureCm])
+
+  const stature = Number.parseFloat(statureCm)
+  const distance = Number.parseFloat(distanceCm)
+
+  return (
+    <div className="space-y-4">
+      <Tabs defaultValue="athleteHeight">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="athleteHeight">Athlete Height</TabsTrigger>
+          <TabsTrigger value="reference">Reference Object</TabsTrigger>
+        </TabsList>
+        <TabsContent value="athleteHeight" className="space-y-2">
+          <Label htmlFor="calibration-stature">Standing height (cm)</Label>
+          <Input
+            id="calibration-stature"
+            type="number"
+            min={0}
+            value={statureCm}
+            onChange={(e) => setStatureCm(e.target.value)}
+            placeholder="e.g. 180"
+          />
+          <p className="text-xs text-muted-foreground">Stand still, fully in frame, facing the camera.</p>
+          <Button
+            className="w-full"
+            disabled={!(stature > 0) || pendingRequest !== null}
+            onClick={() => onRequestCalibration({ method: "athleteHeight", statureCm: stature })}
+          >
+            Measure Athlete
+          </Button>
+        </TabsContent>
+        <TabsContent value="reference" className="space-y-2">
+          <Label htmlFor="calibration-distance">Known distance (cm)</Label>
+          <Input
+            id="calibration-distance"
+            type="number"
+            min={0}
+            value={distanceCm}
+            onChange={(e) => setDistanceCm(e.target.value)}
+            placeholder="e.g. 100"
+          />
+          <p className="text-xs text-muted-foreground">Tap both ends of the object on the video.</p>
+          {pendingRequest?.method === "reference" ? (
+            <Button variant="outline" className="w-full" onClick={() => onRequestCalibration(null)}>
+              Cancel Marking
+            </Button>
+          ) : (
+            <Button
+              className="w-full"
+              disabled={!(distance > 0) || pendingRequest !== null}
+              onClick={() => onRequestCalibration({ method: "reference", distanceCm: distance })}
+            >
+              Mark Points
+            </Button>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {calibrationError && <p className="text-sm text-destructive">{calibrationError}</p>}
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {calibration
+            ? `${calibration.cmPerPixel.toFixed(3)} cm/px (${
+                calibration.method === "athleteHeight" ? "athlete height" : "reference object"
+              })`
+            : "Not calibrated: heights shown in pixels"}
+        </span>
+        {calibration && (
+          <Button variant="ghost" size="sm" onClick={onClearCalibration}>
+            Reset
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,19 +1,16 @@
-export default async function getBestCameraStream(facingMode = "environment") {
-  try {
-    // Use minimal constraints to speed up camera initialization
-    const constraints = {
-      video: {
-        facingMode: { ideal: facingMode },
-        frameRate: { ideal: 30 }   // A reasonable frame rate that most devices support
-      },
-      audio: false,
-    };
+import { type CapturePreference, type CaptureSettings, negotiateCapture } from "@/lib/camera-capture"
 
-    // Request the camera stream once
-    const stream = await navigator.mediaDevices.getUserMedia(constraints);
-    return stream;
-  } catch (error) {
-    console.error("Error selecting best camera stream:", error);
-    return null;
-  }
+// Open the camera quickly, then raise the frame rate as far as the device allows.
+// Errors propagate so callers can explain denied or missing cameras.
+export default async function getBestCameraStream(
+  facingMode = "environment",
+  preference: CapturePreference = "balanced"
+): Promise<{ stream: MediaStream; settings: CaptureSettings }> {
+  // Use minimal constraints to speed up camera initialization
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { facingMode: { ideal: facingMode } },
+    audio: false,
+  })
+  const settings = await negotiateCapture(stream.getVideoTracks()[0], preference)
+  return { stream, settings }
 }
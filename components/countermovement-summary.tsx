@@ -0,0 +1,63 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { JumpResult } from "@/lib/jump-detector"
+import { type Calibration, pixelsToCm } from "@/lib/calibration"
+import { modifiedRsi, phaseDurations } from "@/lib/countermovement"
+
+interface CountermovementSummaryProps {
+  jumps: JumpResult[]
+  calibration?: Calibration | null
+}
+
+const ms = (seconds: number) => `${Math.round(seconds * 1000)}`
+
+// Unweighting, braking and propulsion phases of each countermovement jump
+export default function CountermovementSummary({ jumps, calibration = null }: CountermovementSummaryProps) {
+  const segmented = jumps.filter((jump) => jump.countermovement)
+  if (segmented.length === 0) return null
+
+  return (
+    <div className="mt-4 space-y-2">
+      <p className="text-sm font-medium">Countermovement Phases (ms)</p>
+      <div className="max-h-60 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Unweight</TableHead>
+              <TableHead>Brake</TableHead>
+              <TableHead>Propel</TableHead>
+              <TableHead>To Takeoff</TableHead>
+              <TableHead>Depth</TableHead>
+              <TableHead>RSImod</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {segmented.map((jump) => {
+              const phases = jump.countermovement!
+              const durations = phaseDurations(phases, jump.takeoffTime)
+              const rsiMod = modifiedRsi(jump.flightTimeHeightCm, phases, jump.takeoffTime)
+              return (
+                <TableRow key={jump.jumpNumber}>
+                  <TableCell>{jump.jumpNumber}</TableCell>
+                  <TableCell>{ms(durations.unweighting)}</TableCell>
+                  <TableCell>{ms(durations.braking)}</TableCell>
+                  <TableCell>{ms(durations.propulsion)}</TableCell>
+                  <TableCell>{ms(durations.timeToTakeoff)}</TableCell>
+                  <TableCell>
+                    {calibration
+                      ? `${pixelsToCm(phases.depthPx, calibration).toFixed(1)} cm`
+                      : `${phases.depthPx.toFixed(0)} px`}
+                  </TableCell>
+                  <TableCell>{rsiMod !== null ? rsiMod.toFixed(2) : "-"}</TableCell>
+                </TableRow>
+              )
+            })}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">Segmented from the hip midpoint. RSImod is jump height ÷ time to takeoff.</p>
+    </div>
+  )
+}
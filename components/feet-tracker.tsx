@@ -1,24 +1,71 @@
 "use client"
 
 import { useRef, useEffect, useState, useCallback } from "react"
-import * as tf from "@tensorflow/tfjs"
-import "@tensorflow/tfjs-backend-webgl"
-import "@tensorflow/tfjs-backend-wasm"
-import * as poseDetection from "@tensorflow-models/pose-detection"
+import type * as poseDetection from "@tensorflow-models/pose-detection"
 import getBestCameraStream from "./camera-stream"
+import type { PoseModel } from "@/lib/pose-model"
+import { createPoseDetector } from "@/lib/pose-inference"
+import { estimateJumpPower, formatHeight, formatPower, takeoffVelocity } from "@/lib/jump-physics"
+import { type FrameSample, type JumpResult, type JumpStats, createJumpDetector } from "@/lib/jump-detector"
+import { type PoseTrace, type TraceRecorder, createTraceRecorder } from "@/lib/pose-trace"
+import { getSupportedMimeType } from "@/lib/media-recorder"
+import { type JumpProtocol, isReactiveProtocol } from "@/lib/protocol"
+import { reactiveStrengthIndex } from "@/lib/rsi"
+import type { JointAngles } from "@/lib/joint-angles"
+import { wristAboveAnkle } from "@/lib/reach"
+import { type FrameTimingStats, createFrameClock } from "@/lib/frame-timing"
+import { type CapturePreference, type CaptureSettings, formatCaptureSettings } from "@/lib/camera-capture"
+import { HEIGHT_METHOD_LABELS, type HeightMethod, formatJumpHeight } from "@/lib/height-method"
+import {
+  type Calibration,
+  type CalibrationRequest,
+  type Point,
+  calibrateFromAthleteHeight,
+  calibrateFromReference,
+  pixelsToCm,
+} from "@/lib/calibration"
 
 interface FeetTrackerProps {
   isRecording: boolean
   showTracking: boolean
-  onFeetHeightUpdate: (leftFoot: number, rightFoot: number) => void
+  // timestamp is the frame's capture time in ms, the same clock as jump takeoff and landing times
+  onFeetHeightUpdate: (leftFoot: number, rightFoot: number, jointAngles: JointAngles, timestamp: number) => void
+  onJump?: (result: JumpResult) => void
+  calibration?: Calibration | null
+  calibrationRequest?: CalibrationRequest | null
+  onCalibrate?: (calibration: Calibration | null) => void
+  onTraceRecorded?: (trace: PoseTrace) => void
+  recordOverlay?: boolean
+  onOverlayRecorded?: (video: Blob) => void
   facingMode?: "user" | "environment"
+  bodyMassKg?: number | null // active athlete, for power estimates
+  protocol?: JumpProtocol
+  heightMethod?: HeightMethod
+  reachRequested?: boolean
+  onReachMeasured?: (wristAboveAnklePx: number | null) => void
+  poseModel?: PoseModel
+  capturePreference?: CapturePreference
 }
 
 export default function FeetTracker({
   isRecording,
   showTracking,
   onFeetHeightUpdate,
+  onJump,
+  calibration = null,
+  calibrationRequest = null,
+  onCalibrate,
+  onTraceRecorded,
+  recordOverlay = false,
+  onOverlayRecorded,
   facingMode = "environment",
+  bodyMassKg = null,
+  protocol = "standard",
+  heightMethod = "flightTime",
+  reachRequested = false,
+  onReachMeasured,
+  poseModel = "lightning",
+  capturePreference = "balanced",
 }: FeetTrackerProps) {
   const videoRef = useRef<HTMLVideoElement>(null)
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -26,27 +73,36 @@ export default function FeetTracker({
   const [cameraLoading, setCameraLoading] = useState(true)
   const [modelLoading, setModelLoading] = useState(true)
   const [isProcessing, setIsProcessing] = useState(false)
+  const [markedPoints, setMarkedPoints] = useState<Point[]>([])
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings | null>(null) // achieved by the camera
 
-  // Stats
-  const [jumpCount, setJumpCount] = useState(0)
-  const [maxHeight, setMaxHeight] = useState(0)
-  const [flightTime, setFlightTime] = useState(0)
-  const [lastJumpHeight, setLastJumpHeight] = useState(0)
-  const [bestFlightTime, setBestFlightTime] = useState(0)
-  const [bestFlightJump, setBestFlightJump] = useState(0)
-  const [bestMaxHeight, setBestMaxHeight] = useState(0)
-  const [bestMaxJump, setBestMaxJump] = useState(0)
+  // Jump detection and stats
+  const [jumpDetector] = useState(() => createJumpDetector())
+  const [stats, setStats] = useState<JumpStats>(() => jumpDetector.getStats())
+  const [frameTiming, setFrameTiming] = useState<FrameTimingStats | null>(null)
 
   // Refs for tracking and throttling
   const streamRef = useRef<MediaStream | null>(null)
   const detectorRef = useRef<poseDetection.PoseDetector | null>(null)
-  const requestRef = useRef<number | null>(null)
-  const groundLevelRef = useRef<number | null>(null)
-  const inAirRef = useRef<boolean>(false)
-  const jumpStartTimeRef = useRef<number | null>(null)
-  const feetPositionsRef = useRef<number[]>([])
+  const modelRequestRef = useRef(0) // latest model load, so a slower earlier load is discarded
+  const cancelFrameRef = useRef<(() => void) | null>(null) // cancels the pending frame callback
+  const processingRunRef = useRef(0) // current processing loop, so a loop stopped mid-inference does not resume
+  const frameClockRef = useRef(createFrameClock())
   const lastTimeRef = useRef<number>(0)
   const lastDrawTimeRef = useRef<number>(0) // For throttling canvas drawing
+  const calibrationRef = useRef<Calibration | null>(calibration)
+  const bodyMassRef = useRef(bodyMassKg)
+  bodyMassRef.current = bodyMassKg
+  const protocolRef = useRef(protocol)
+  protocolRef.current = protocol
+  const heightMethodRef = useRef(heightMethod)
+  const legCountRef = useRef({ left: 0, right: 0 }) // single-leg jumps this session
+  heightMethodRef.current = heightMethod
+  const onJumpRef = useRef(onJump)
+  onJumpRef.current = onJump
+  const traceRecorderRef = useRef<TraceRecorder | null>(null)
+  const exportCanvasRef = useRef<HTMLCanvasElement | null>(null) // Video, skeleton and stats panel
+  const overlayRecorderRef = useRef<MediaRecorder | null>(null)
 
   // Setup camera
   const setupCamera = useCallback(async () => {
@@ -57,8 +113,9 @@ export default function FeetTracker({
       if (streamRef.current) {
         streamRef.current.getTracks().forEach((track) => track.stop())
       }
-      const stream = await getBestCameraStream()
+      const { stream, settings } = await getBestCameraStream(facingMode, capturePreference)
       streamRef.current = stream
+      setCaptureSettings(settings)
 
       if (videoRef.current) {
         videoRef.current.srcObject = stream
@@ -87,56 +144,176 @@ export default function FeetTracker({
         setError(`Camera error: ${err.message || "Unknown error"}`)
       }
     }
-  }, [facingMode])
+  }, [facingMode, capturePreference])
 
   // Setup TensorFlow model
   const setupModel = useCallback(async () => {
     try {
+      const request = ++modelRequestRef.current
       setModelLoading(true)
-      await tf.ready()
-      const isIOS = /iPhone|iPad|iPod/i.test(navigator.userAgent);
-      if (isIOS) {
-        await tf.setBackend("wasm");
-        console.log("Using WASM backend for iOS");
-      } else {
-        await tf.setBackend("webgl");
-        console.log("Using WebGL backend");
+      detectorRef.current?.dispose()
+      detectorRef.current = null
+      const detector = await createPoseDetector(poseModel)
+      if (request !== modelRequestRef.current) {
+        detector.dispose()
+        return null
       }
-      const detector = await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
-        modelType: poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
-        enableSmoothing: true,
-      })
       detectorRef.current = detector
       setModelLoading(false)
       return detector
     } catch (err) {
       console.error("Error loading pose detection model:", err)
-      setError("Failed to load pose detection model. Please try again.")
+      setError(`Failed to load pose detection model: ${err instanceof Error ? err.message : "unknown error"}`)
       setModelLoading(false)
       return null
     }
-  }, [])
+  }, [poseModel])
 
   const processingRef = useRef(isProcessing)
   useEffect(() => {
     processingRef.current = isProcessing
   }, [isProcessing])
 
+  useEffect(() => {
+    calibrationRef.current = calibration
+    jumpDetector.setCalibration(calibration)
+  }, [calibration])
+
+  // Publish detected jumps
+  useEffect(() => {
+    return jumpDetector.on("jump", (result) => {
+      if (result.stanceLeg === "left" || result.stanceLeg === "right") legCountRef.current[result.stanceLeg]++
+      setStats(jumpDetector.getStats())
+      setFrameTiming(frameClockRef.current.getStats())
+      onJumpRef.current?.(result)
+    })
+  }, [jumpDetector])
+
+  // Handle calibration requests
+  useEffect(() => {
+    setMarkedPoints([])
+    if (calibrationRequest?.method !== "athleteHeight") return
+    const video = videoRef.current
+    const detector = detectorRef.current
+    if (!video || !detector) {
+      onCalibrate?.(null)
+      return
+    }
+    // Measure the athlete's nose-to-ankle span on the current frame
+    detector
+      .estimatePoses(video, { flipHorizontal: facingMode === "user" })
+      .then((poses) => {
+        onCalibrate?.(poses.length > 0 ? calibrateFromAthleteHeight(poses[0].keypoints, calibrationRequest.statureCm) : null)
+      })
+      .catch((err) => {
+        console.error("Error measuring athlete height:", err)
+        onCalibrate?.(null)
+      })
+  }, [calibrationRequest])
+
+  // Measure standing reach with the arm fully raised
+  useEffect(() => {
+    if (!reachRequested) return
+    const video = videoRef.current
+    const detector = detectorRef.current
+    if (!video || !detector) {
+      onReachMeasured?.(null)
+      return
+    }
+    detector
+      .estimatePoses(video, { flipHorizontal: facingMode === "user" })
+      .then((poses) => onReachMeasured?.(poses.length > 0 ? wristAboveAnkle(poses[0].keypoints) : null))
+      .catch((err) => {
+        console.error("Error measuring standing reach:", err)
+        onReachMeasured?.(null)
+      })
+  }, [reachRequested])
+
+  // Mark reference points on the video (in video pixel coordinates)
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (calibrationRequest?.method !== "reference" || !videoRef.current) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    const point = {
+      x: ((event.clientX - rect.left) / rect.width) * (videoRef.current.videoWidth || 640),
+      y: ((event.clientY - rect.top) / rect.height) * (videoRef.current.videoHeight || 480),
+    }
+    const points = [...markedPoints, point]
+    if (points.length < 2) {
+      setMarkedPoints(points)
+      return
+    }
+    setMarkedPoints([])
+    onCalibrate?.(calibrateFromReference(points[0], points[1], calibrationRequest.distanceCm))
+  }
+
+  // Takeoff velocity and, with a body mass, estimated peak power of a jump
+  const formatJumpOutput = (jump: JumpResult | null, massKg: number | null) => {
+    if (!jump) return ["Takeoff Velocity: 0.00 m/s", "Peak Power: -"]
+    return [
+      `Takeoff Velocity: ${takeoffVelocity(jump.flightTime).toFixed(2)} m/s`,
+      `Peak Power: ${massKg ? formatPower(estimateJumpPower(jump, massKg)) : "select an athlete"}`,
+    ]
+  }
+
+  // Last jump's height by the selected method, next to its centre-of-mass rise
+  const formatMethodHeight = (jump: JumpResult | null, method: HeightMethod) => [
+    `${HEIGHT_METHOD_LABELS[method]}: ${jump ? formatJumpHeight(jump, method) : "-"}`,
+    `CoM Rise: ${jump ? formatJumpHeight(jump, "centerOfMass") : "-"}`,
+  ]
+
+  // Planted leg of the last jump and how many jumps each leg has done
+  const formatStance = (jump: JumpResult | null, count: { left: number; right: number }) => [
+    `Planted Leg: ${jump?.stanceLeg === "left" ? "Left" : jump?.stanceLeg === "right" ? "Right" : jump ? "Both" : "-"}`,
+    `Left ${count.left} · Right ${count.right}`,
+  ]
+
+  // Ground contact before the jump and its RSI (flight ÷ contact)
+  const formatContact = (jump: JumpResult | null) => {
+    const rsi = jump ? reactiveStrengthIndex(jump) : null
+    return [
+      `Contact Time: ${jump?.contactTime != null ? `${(jump.contactTime * 1000).toFixed(0)} ms` : "-"}`,
+      `RSI: ${rsi !== null ? rsi.toFixed(2) : "-"}`,
+    ]
+  }
+
+  // Flight-time uncertainty of the last jump and how steadily frames reached the detector
+  const formatTiming = (jump: JumpResult | null, timing: FrameTimingStats | null) => [
+    `Timing: ${jump?.timingUncertainty != null ? `± ${(jump.timingUncertainty * 1000).toFixed(0)} ms` : "-"}`,
+    timing?.frameInterval
+      ? `${(1000 / timing.frameInterval).toFixed(0)} fps · ${timing.dropped} dropped · ${timing.duplicated} repeated`
+      : "- fps",
+  ]
+
+  // Pixel displacement, with centimetres when calibrated
+  const formatDisplacement = (px: number) =>
+    calibration ? `${px.toFixed(1)}px / ${pixelsToCm(px, calibration).toFixed(1)} cm` : `${px.toFixed(1)}px`
+
   // Initialize
   useEffect(() => {
     setupCamera()
-    setupModel()
     return () => {
       if (streamRef.current) {
         streamRef.current.getTracks().forEach((track) => track.stop())
         streamRef.current = null
       }
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current)
-        requestRef.current = null
-      }
+      cancelFrameRef.current?.()
+      cancelFrameRef.current = null
     }
-  }, [setupCamera, setupModel])
+  }, [setupCamera])
+
+  // Load the pose model, again whenever the user picks another one
+  useEffect(() => {
+    setupModel()
+  }, [setupModel])
+
+  // Release the model on unmount, including one still loading
+  useEffect(() => {
+    return () => {
+      modelRequestRef.current++
+      detectorRef.current?.dispose()
+      detectorRef.current = null
+    }
+  }, [])
 
   // Handle camera change
   useEffect(() => {
@@ -147,83 +324,164 @@ export default function FeetTracker({
   useEffect(() => {
     if (!isRecording || !videoRef.current || error || modelLoading || cameraLoading) {
       setIsProcessing(false)
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current)
-        requestRef.current = null
-      }
+      cancelFrameRef.current?.()
+      cancelFrameRef.current = null
       return
     }
     setIsProcessing(true)
     // Reset tracking data on new recording
-    groundLevelRef.current = null
-    inAirRef.current = false
-    jumpStartTimeRef.current = null
-    feetPositionsRef.current = []
-    setJumpCount(0)
-    setMaxHeight(0)
-    setFlightTime(0)
-    setLastJumpHeight(0)
     // Note: Best jump stats are NOT reset now so they persist across recordings.
+    jumpDetector.reset({ keepBest: true })
+    legCountRef.current = { left: 0, right: 0 }
+    setStats(jumpDetector.getStats())
+    frameClockRef.current.reset()
+    setFrameTiming(null)
+    traceRecorderRef.current = createTraceRecorder(
+      videoRef.current.videoWidth || 640,
+      videoRef.current.videoHeight || 480
+    )
+    if (recordOverlay) startOverlayRecording()
     processVideo()
     return () => {
       setIsProcessing(false)
-      if (requestRef.current) {
-        cancelAnimationFrame(requestRef.current)
-        requestRef.current = null
-      }
+      processingRunRef.current++
+      cancelFrameRef.current?.()
+      cancelFrameRef.current = null
+      jumpDetector.flush()
+      // Hand over every pose seen this session for replay
+      const trace = traceRecorderRef.current?.finish()
+      traceRecorderRef.current = null
+      if (trace) onTraceRecorded?.(trace)
+      stopOverlayRecording()
     }
   }, [isRecording, error, modelLoading, cameraLoading])
 
-  // Process video frames
+  // Record the composited tracking canvas for export
+  const startOverlayRecording = () => {
+    const exportCanvas = document.createElement("canvas")
+    exportCanvas.width = videoRef.current?.videoWidth || 640
+    exportCanvas.height = videoRef.current?.videoHeight || 480
+    const mimeType = getSupportedMimeType()
+    const chunks: Blob[] = []
+
+    try {
+      const mediaRecorder = new MediaRecorder(exportCanvas.captureStream(30), { mimeType })
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data)
+      }
+      mediaRecorder.onstop = () => {
+        if (chunks.length > 0) onOverlayRecorded?.(new Blob(chunks, { type: mimeType }))
+      }
+      mediaRecorder.start(1000) // Collect data every second
+      exportCanvasRef.current = exportCanvas
+      overlayRecorderRef.current = mediaRecorder
+    } catch (err) {
+      console.error("Error starting overlay recording:", err)
+    }
+  }
+
+  const stopOverlayRecording = () => {
+    if (overlayRecorderRef.current && overlayRecorderRef.current.state !== "inactive") {
+      overlayRecorderRef.current.stop()
+    }
+    overlayRecorderRef.current = null
+    exportCanvasRef.current = null
+  }
+
+  // Process video frames, timed by when each frame was captured rather than painted
   const processVideo = async () => {
     if (!videoRef.current || !canvasRef.current || !detectorRef.current) return;
+    const video = videoRef.current;
     const detector = detectorRef.current;
+    const run = processingRunRef.current;
+    const stopped = () => run !== processingRunRef.current;
+    // requestVideoFrameCallback is missing in older Firefox
+    const useFrameCallback = typeof video.requestVideoFrameCallback === "function";
+
+    const scheduleNext = () => {
+      if (stopped()) return;
+      if (useFrameCallback) {
+        const handle = video.requestVideoFrameCallback(onVideoFrame);
+        cancelFrameRef.current = () => video.cancelVideoFrameCallback(handle);
+      } else {
+        const handle = requestAnimationFrame(onAnimationFrame);
+        cancelFrameRef.current = () => cancelAnimationFrame(handle);
+      }
+    };
+
+    const onVideoFrame = (now: number, metadata: VideoFrameCallbackMetadata) => {
+      const timestamp = frameClockRef.current.next(metadata);
+      if (timestamp === null) {
+        scheduleNext();
+        return;
+      }
+      detectPose(now, timestamp);
+    };
 
-    const detectPose = async (time: number) => {
-      // High-fps calculation throttle (~16ms)
+    // Fallback: paint time with a high-fps calculation throttle (~16ms)
+    const onAnimationFrame = (time: number) => {
       if (time - lastTimeRef.current < 16) {
-        requestRef.current = requestAnimationFrame(detectPose);
+        scheduleNext();
         return;
       }
       lastTimeRef.current = time;
+      detectPose(time, time);
+    };
 
+    // time paces drawing; timestamp is when the frame was captured and drives detection
+    const detectPose = async (time: number, timestamp: number) => {
       const canvas: any = canvasRef.current;
       const ctx = canvas.getContext("2d");
       if (!ctx) {
-        requestRef.current = requestAnimationFrame(detectPose);
+        scheduleNext();
         return;
       }
 
       // Update canvas size if needed
-      const videoWidth = videoRef.current.videoWidth || 640;
-      const videoHeight = videoRef.current.videoHeight || 480;
+      const videoWidth = video.videoWidth || 640;
+      const videoHeight = video.videoHeight || 480;
       if (canvas.width !== videoWidth || canvas.height !== videoHeight) {
         canvas.width = videoWidth;
         canvas.height = videoHeight;
       }
 
-      // Draw visuals at lower frequency (every ~100ms)
-      if (time - lastDrawTimeRef.current >= 100) {
+      // Draw visuals at lower frequency (every ~100ms), or every frame while exporting
+      const drawInterval = exportCanvasRef.current ? 0 : 100;
+      const draw = time - lastDrawTimeRef.current >= drawInterval;
+      if (draw) {
         ctx.clearRect(0, 0, canvas.width, canvas.height);
-        ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
         lastDrawTimeRef.current = time;
       }
 
       try {
-        const poses = await detector.estimatePoses(videoRef.current!, {
-          flipHorizontal: facingMode === "user",
-        });
+        const poses = await detector.estimatePoses(
+          video,
+          { flipHorizontal: facingMode === "user" },
+          timestamp
+        );
+        // Stop was pressed during inference; the detector has already been flushed
+        if (stopped()) return;
+        traceRecorderRef.current?.record(timestamp, poses);
         if (poses.length > 0) {
-          processPose(ctx, poses[0], canvas.width, canvas.height, time);
+          processPose(ctx, poses[0], canvas.width, canvas.height, timestamp, draw);
         }
       } catch (err) {
         console.error("Error processing video frame:", err);
       }
 
-      requestRef.current = requestAnimationFrame(detectPose);
+      // Composite the tracking canvas and stats into the export stream
+      const exportCanvas = exportCanvasRef.current;
+      const exportCtx = exportCanvas?.getContext("2d");
+      if (exportCanvas && exportCtx && draw) {
+        exportCtx.drawImage(canvas, 0, 0, exportCanvas.width, exportCanvas.height);
+        drawStatsPanel(exportCtx, exportCanvas.width, exportCanvas.height);
+      }
+
+      scheduleNext();
     };
 
-    requestRef.current = requestAnimationFrame(detectPose);
+    scheduleNext();
   };
 
   // Process pose data and update stats
@@ -232,81 +490,18 @@ export default function FeetTracker({
     pose: poseDetection.Pose,
     width: number,
     height: number,
-    timestamp: number
+    timestamp: number,
+    draw: boolean
   ) => {
-    const leftAnkle = pose.keypoints.find((kp) => kp.name === "left_ankle")
-    const rightAnkle = pose.keypoints.find((kp) => kp.name === "right_ankle")
-    if (!leftAnkle || !rightAnkle) return
-
-    let leftFootHeight, rightFootHeight
-    if (leftAnkle.score && rightAnkle.score && leftAnkle.score + rightAnkle.score < 0.6) {
-      leftFootHeight = 0
-      rightFootHeight = 0
-    } else {
-      leftFootHeight = height - leftAnkle.y
-      rightFootHeight = height - rightAnkle.y
-    }
-    const avgFootHeight = Math.min(leftFootHeight, rightFootHeight)
-
-    // Update tracking array
-    feetPositionsRef.current.push(avgFootHeight)
-    if (feetPositionsRef.current.length > 30) feetPositionsRef.current.shift()
-
-    // Determine ground level
-    if (groundLevelRef.current === null) {
-      groundLevelRef.current = avgFootHeight
-    } else if (avgFootHeight < groundLevelRef.current && avgFootHeight > groundLevelRef.current - 100) {
-      groundLevelRef.current = avgFootHeight
-    }
-
-    // Detect jump events
-    const jumpThreshold = 20
-    const isInAir = groundLevelRef.current !== null && avgFootHeight > groundLevelRef.current + jumpThreshold
-
-    if (isInAir && !inAirRef.current) {
-      inAirRef.current = true
-      jumpStartTimeRef.current = timestamp
-    } else if (!isInAir && inAirRef.current) {
-      inAirRef.current = false
-      if (jumpStartTimeRef.current !== null) {
-        const jumpFlightTime = (timestamp - jumpStartTimeRef.current) / 1000
-        const recentHeights = feetPositionsRef.current.slice(-15)
-        const jumpMaxHeight = Math.max(...recentHeights)
-        const relativeJumpHeight = groundLevelRef.current !== null ? jumpMaxHeight - groundLevelRef.current : 0
-
-        if (jumpFlightTime > 0.1) {
-          // Use functional update to ensure correct jump numbering
-          setJumpCount(prev => {
-            const newJumpCount = prev + 1
-            setFlightTime(jumpFlightTime)
-            setLastJumpHeight(relativeJumpHeight)
-            setMaxHeight(prevMax => Math.max(prevMax, relativeJumpHeight))
-            setBestFlightTime(prevBestFlightTime => {
-              if (jumpFlightTime > prevBestFlightTime) {
-                setBestFlightJump(newJumpCount)
-                return jumpFlightTime
-              }
-              return prevBestFlightTime
-            })
-            setBestMaxHeight(prevBestMaxHeight => {
-              if (relativeJumpHeight > prevBestMaxHeight) {
-                setBestMaxJump(newJumpCount)
-                return relativeJumpHeight
-              }
-              return prevBestMaxHeight
-            })
-            return newJumpCount
-          })
-        }
-      }
-    }
+    const sample = jumpDetector.processFrame({ timestamp, frameHeight: height, keypoints: pose.keypoints })
+    if (!sample) return
 
     // Always update vertical calculation
-    onFeetHeightUpdate(leftFootHeight, rightFootHeight)
+    onFeetHeightUpdate(sample.leftFootHeight, sample.rightFootHeight, sample.jointAngles, sample.timestamp)
 
     // Draw visualization only on frames that update visuals
-    if (timestamp - lastDrawTimeRef.current < 100) return
-    drawVisualization(ctx, pose, width, height, avgFootHeight)
+    if (!draw) return
+    drawVisualization(ctx, pose, width, height, sample)
   }
 
   // Draw tracking visualization
@@ -315,21 +510,21 @@ export default function FeetTracker({
     pose: poseDetection.Pose,
     width: number,
     height: number,
-    avgFootHeight: number
+    sample: FrameSample
   ) => {
     // Draw ground level
-    if (groundLevelRef.current !== null) {
+    if (sample.groundLevel !== null) {
       ctx.strokeStyle = "rgba(255, 255, 255, 0.5)"
       ctx.lineWidth = 2
       ctx.setLineDash([5, 5])
       ctx.beginPath()
-      ctx.moveTo(0, height - groundLevelRef.current)
-      ctx.lineTo(width, height - groundLevelRef.current)
+      ctx.moveTo(0, height - sample.groundLevel)
+      ctx.lineTo(width, height - sample.groundLevel)
       ctx.stroke()
       ctx.setLineDash([])
       ctx.fillStyle = "rgba(255, 255, 255, 0.7)"
       ctx.font = "12px Arial"
-      ctx.fillText("Ground Level", 10, height - groundLevelRef.current - 5)
+      ctx.fillText("Ground Level", 10, height - sample.groundLevel - 5)
     }
 
     // Draw skeleton connections
@@ -338,6 +533,12 @@ export default function FeetTracker({
       ["left_knee", "left_ankle"],
       ["right_hip", "right_knee"],
       ["right_knee", "right_ankle"],
+      ["left_ankle", "left_heel"],
+      ["left_heel", "left_foot_index"],
+      ["left_ankle", "left_foot_index"],
+      ["right_ankle", "right_heel"],
+      ["right_heel", "right_foot_index"],
+      ["right_ankle", "right_foot_index"],
       ["left_hip", "right_hip"],
       ["left_shoulder", "right_shoulder"],
       ["left_shoulder", "left_elbow"],
@@ -396,14 +597,62 @@ export default function FeetTracker({
       }
     }
     // Draw jump height overlay if in air
-    if (inAirRef.current && groundLevelRef.current !== null) {
-      const currentJumpHeight = avgFootHeight - groundLevelRef.current
+    if (sample.inAir && sample.groundLevel !== null) {
+      const currentJumpHeight = sample.footHeight - sample.groundLevel
       ctx.fillStyle = "rgba(255, 255, 255, 0.8)"
       ctx.font = "16px Arial"
-      ctx.fillText(`Height: ${currentJumpHeight.toFixed(1)}px`, width / 2 - 50, 30)
+      const currentCalibration = calibrationRef.current
+      const label = currentCalibration
+        ? `Height: ${currentJumpHeight.toFixed(1)}px (${pixelsToCm(currentJumpHeight, currentCalibration).toFixed(1)} cm)`
+        : `Height: ${currentJumpHeight.toFixed(1)}px`
+      ctx.fillText(label, width / 2 - 50, 30)
     }
   }
 
+  // Draw the jump stats panel (burned into exported video)
+  const drawStatsPanel = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    const current = jumpDetector.getStats()
+    const currentCalibration = calibrationRef.current
+    const displacement = (px: number) =>
+      currentCalibration ? `${px.toFixed(1)}px / ${pixelsToCm(px, currentCalibration).toFixed(1)} cm` : `${px.toFixed(1)}px`
+    const lines = [
+      [`Jump Count: ${current.jumpCount}`, `Max Height: ${displacement(current.maxHeight)} (${formatHeight(current.maxHeightCm)})`],
+      [
+        `Last Jump: ${displacement(current.lastJump?.displacementPx ?? 0)} (${formatHeight(current.lastJump?.flightTimeHeightCm ?? 0)})`,
+        `Flight Time: ${(current.lastJump?.flightTime ?? 0).toFixed(2)}s`,
+      ],
+      [
+        `Best Flight Time: ${current.bestFlightTime.toFixed(2)}s (Jump #${current.bestFlightJump})`,
+        `Best Max Height: ${displacement(current.bestMaxHeight)} (${formatHeight(current.bestMaxHeightCm)}) (Jump #${current.bestMaxJump})`,
+      ],
+      formatMethodHeight(current.lastJump, heightMethodRef.current),
+      formatJumpOutput(current.lastJump, bodyMassRef.current),
+      formatTiming(current.lastJump, frameClockRef.current.getStats()),
+      ...(isReactiveProtocol(protocolRef.current) ? [formatContact(current.lastJump)] : []),
+      ...(protocolRef.current === "singleLeg" ? [formatStance(current.lastJump, legCountRef.current)] : []),
+    ]
+    const fontSize = Math.max(12, Math.round(height / 40))
+    const lineHeight = fontSize * 1.4
+    const padding = fontSize
+    const panelHeight = lines.length * lineHeight + padding
+    const top = height - panelHeight - padding
+
+    ctx.fillStyle = "rgba(0, 0, 0, 0.5)"
+    ctx.fillRect(padding, top, width - padding * 2, panelHeight)
+    ctx.fillStyle = "#ffffff"
+    ctx.font = `${fontSize}px Arial`
+    ctx.textBaseline = "top"
+    lines.forEach(([left, right], index) => {
+      const y = top + padding / 2 + index * lineHeight
+      ctx.textAlign = "left"
+      ctx.fillText(left, padding * 2, y)
+      ctx.textAlign = "right"
+      ctx.fillText(right, width - padding * 2, y)
+    })
+    ctx.textAlign = "left"
+    ctx.textBaseline = "alphabetic"
+  }
+
   // Retry camera setup
   const retryCamera = () => {
     if (streamRef.current) {
@@ -421,7 +670,32 @@ export default function FeetTracker({
   return (
     <div className="relative w-full h-full">
       <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
-      <canvas ref={canvasRef} className={`absolute top-0 left-0 w-full h-full ${showTracking ? "opacity-100" : "opacity-0"}`} />
+      <canvas
+        ref={canvasRef}
+        onClick={handleCanvasClick}
+        className={`absolute top-0 left-0 w-full h-full ${showTracking ? "opacity-100" : "opacity-0"} ${
+          calibrationRequest?.method === "reference" ? "cursor-crosshair" : ""
+        }`}
+      />
+
+      {/* Reference point marking */}
+      {calibrationRequest?.method === "reference" && (
+        <>
+          <div className="absolute top-4 left-4 bg-black/60 px-3 py-1 rounded-md text-white text-sm pointer-events-none">
+            Tap two points {calibrationRequest.distanceCm} cm apart ({markedPoints.length}/2)
+          </div>
+          {markedPoints.map((point, index) => (
+            <div
+              key={index}
+              className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-amber-400 border-2 border-white pointer-events-none"
+              style={{
+                left: `${(point.x / (videoRef.current?.videoWidth || 640)) * 100}%`,
+                top: `${(point.y / (videoRef.current?.videoHeight || 480)) * 100}%`,
+              }}
+            />
+          ))}
+        </>
+      )}
 
       {(cameraLoading || modelLoading) && (
         <div className="absolute inset-0 flex items-center justify-center bg-black/50">
@@ -445,6 +719,12 @@ export default function FeetTracker({
         </div>
       )}
 
+      {captureSettings && !error && !cameraLoading && (
+        <div className="absolute top-4 left-4 bg-black/50 px-2 py-1 rounded-md text-white text-xs">
+          {formatCaptureSettings(captureSettings)}
+        </div>
+      )}
+
       {isProcessing && !error && !cameraLoading && !modelLoading && (
         <div className="absolute top-4 right-4 flex items-center">
           <div className="w-3 h-3 rounded-full bg-green-500 animate-pulse mr-2"></div>
@@ -456,17 +736,52 @@ export default function FeetTracker({
       {isProcessing && !error && !cameraLoading && !modelLoading && (
         <div className="absolute bottom-4 left-4 right-4 bg-black/50 p-3 rounded-md text-white text-sm">
           <div className="flex justify-between">
-            <span>Jump Count: {jumpCount}</span>
-            <span>Max Height: {maxHeight.toFixed(1)}px</span>
+            <span>Jump Count: {stats.jumpCount}</span>
+            <span>Max Height: {formatDisplacement(stats.maxHeight)} ({formatHeight(stats.maxHeightCm)})</span>
+          </div>
+          <div className="flex justify-between mt-1">
+            <span>
+              Last Jump: {formatDisplacement(stats.lastJump?.displacementPx ?? 0)} (
+              {formatHeight(stats.lastJump?.flightTimeHeightCm ?? 0)})
+            </span>
+            <span>Flight Time: {(stats.lastJump?.flightTime ?? 0).toFixed(2)}s</span>
+          </div>
+          <div className="flex justify-between mt-1">
+            <span>Best Flight Time: {stats.bestFlightTime.toFixed(2)}s (Jump #{stats.bestFlightJump})</span>
+            <span>
+              Best Max Height: {formatDisplacement(stats.bestMaxHeight)} ({formatHeight(stats.bestMaxHeightCm)}) (Jump #
+              {stats.bestMaxJump})
+            </span>
+          </div>
+          <div className="flex justify-between mt-1">
+            {formatMethodHeight(stats.lastJump, heightMethod).map((text) => (
+              <span key={text}>{text}</span>
+            ))}
           </div>
           <div className="flex justify-between mt-1">
-            <span>Last Jump: {lastJumpHeight.toFixed(1)}px</span>
-            <span>Flight Time: {flightTime.toFixed(2)}s</span>
+            {formatJumpOutput(stats.lastJump, bodyMassKg).map((text) => (
+              <span key={text}>{text}</span>
+            ))}
           </div>
           <div className="flex justify-between mt-1">
-            <span>Best Flight Time: {bestFlightTime.toFixed(2)}s (Jump #{bestFlightJump})</span>
-            <span>Best Max Height: {bestMaxHeight.toFixed(1)}px (Jump #{bestMaxJump})</span>
+            {formatTiming(stats.lastJump, frameTiming).map((text) => (
+              <span key={text}>{text}</span>
+            ))}
           </div>
+          {protocol === "singleLeg" && (
+            <div className="flex justify-between mt-1">
+              {formatStance(stats.lastJump, legCountRef.current).map((text) => (
+                <span key={text}>{text}</span>
+              ))}
+            </div>
+          )}
+          {isReactiveProtocol(protocol) && (
+            <div className="flex justify-between mt-1">
+              {formatContact(stats.lastJump).map((text) => (
+                <span key={text}>{text}</span>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,50 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { JumpResult } from "@/lib/jump-detector"
+import type { JointAngles } from "@/lib/joint-angles"
+
+interface JointAngleSummaryProps {
+  jumps: JumpResult[]
+}
+
+const formatAngles = (angles: JointAngles | null) =>
+  angles ? [angles.hip, angles.knee, angles.ankle].map((angle) => (angle !== null ? angle.toFixed(0) : "-")).join(" / ") : "-"
+
+// Hip, knee and ankle angles at takeoff, peak and landing of each jump
+export default function JointAngleSummary({ jumps }: JointAngleSummaryProps) {
+  const measured = jumps.filter((jump) => jump.jointAngles)
+  if (measured.length === 0) return null
+
+  return (
+    <div className="mt-4 space-y-2">
+      <p className="text-sm font-medium">Joint Angles (hip / knee / ankle, °)</p>
+      <div className="max-h-60 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Takeoff</TableHead>
+              <TableHead>Peak</TableHead>
+              <TableHead>Landing</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {measured.map((jump) => (
+              <TableRow key={jump.jumpNumber}>
+                <TableCell>{jump.jumpNumber}</TableCell>
+                <TableCell>{formatAngles(jump.jointAngles!.takeoff)}</TableCell>
+                <TableCell>{formatAngles(jump.jointAngles!.peak)}</TableCell>
+                <TableCell>{formatAngles(jump.jointAngles!.landing)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Measured on the leg facing the camera; film from the side. Ankle is the shank-to-ground angle unless the model
+        tracks the toes.
+      </p>
+    </div>
+  )
+}
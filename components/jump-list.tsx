@@ -0,0 +1,117 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Trash2 } from "lucide-react"
+import type { JumpResult } from "@/lib/jump-detector"
+import { type HeightMethod, formatJumpHeight } from "@/lib/height-method"
+import { validateJump } from "@/lib/jump-validation"
+import { flightTimeHeightUncertaintyCm } from "@/lib/jump-physics"
+import {
+  type LandingPosture,
+  type LandingStiffness,
+  type ValgusRisk,
+  isStiffLanding,
+  valgusRisk,
+} from "@/lib/landing-mechanics"
+
+interface JumpListProps {
+  jumps: JumpResult[]
+  heightMethod?: HeightMethod
+  disabled?: boolean
+  onDiscard: (jumpNumber: number) => void
+}
+
+const RISK_STYLES: Record<ValgusRisk, string> = {
+  low: "border-green-500 text-green-600",
+  moderate: "border-amber-500 text-amber-600",
+  high: "border-red-500 text-red-600",
+}
+
+const formatAngle = (angle: number | null) => (angle !== null ? `${angle.toFixed(0)}°` : "-")
+
+// Separation ratio and frontal knee angles of one landing frame
+const formatPosture = (posture: LandingPosture) =>
+  `ratio ${posture.separationRatio !== null ? posture.separationRatio.toFixed(2) : "-"}, L ${formatAngle(
+    posture.kneeAngles.left
+  )} R ${formatAngle(posture.kneeAngles.right)}`
+
+// Knee flexion absorbed on landing and how quickly it was reached
+const formatStiffness = ({ kneeFlexion, timeToMaxFlexion }: LandingStiffness) =>
+  `Knee flexion ${kneeFlexion.toFixed(0)}° in ${(timeToMaxFlexion * 1000).toFixed(0)} ms`
+
+// Flight time with the uncertainty left by the frame timing around takeoff and landing
+const formatTiming = (flightTime: number, uncertainty: number) =>
+  `Flight ${flightTime.toFixed(3)} s ± ${(uncertainty * 1000).toFixed(0)} ms (± ${flightTimeHeightUncertaintyCm(
+    flightTime,
+    uncertainty
+  ).toFixed(1)} cm)`
+
+// Every jump of the session with the reasons it may not be a valid measurement
+export default function JumpList({ jumps, heightMethod = "flightTime", disabled = false, onDiscard }: JumpListProps) {
+  if (jumps.length === 0) return <p className="text-sm text-muted-foreground">No jumps yet.</p>
+
+  return (
+    <div className="max-h-72 overflow-y-auto space-y-2">
+      {jumps.map((jump) => {
+        const validation = validateJump(jump)
+        const risk = valgusRisk(jump.landing)
+        return (
+          <div key={jump.jumpNumber} className="flex items-start gap-2 rounded-md border p-2 text-sm">
+            <div className="flex-1 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">#{jump.jumpNumber}</span>
+                <span>{formatJumpHeight(jump, heightMethod)}</span>
+                <Badge variant={validation.valid ? "secondary" : "destructive"}>
+                  {validation.valid ? "Valid" : "Check"}
+                </Badge>
+                {(jump.stanceLeg === "left" || jump.stanceLeg === "right") && (
+                  <Badge variant="outline" className="capitalize">
+                    {jump.stanceLeg} leg
+                  </Badge>
+                )}
+                {jump.manual && <Badge variant="outline">Manual</Badge>}
+                {risk && (
+                  <Badge variant="outline" className={RISK_STYLES[risk]} title="Dynamic knee valgus on landing">
+                    Valgus {risk}
+                  </Badge>
+                )}
+                {isStiffLanding(jump.landing) && (
+                  <Badge variant="outline" className={RISK_STYLES.moderate} title="Little knee flexion on landing">
+                    Stiff landing
+                  </Badge>
+                )}
+              </div>
+              {jump.timingUncertainty !== null && (
+                <p className="text-xs text-muted-foreground">{formatTiming(jump.flightTime, jump.timingUncertainty)}</p>
+              )}
+              {jump.landing && risk && (
+                <p className="text-xs text-muted-foreground">
+                  Contact {formatPosture(jump.landing.initialContact)}
+                  {jump.landing.maxFlexion && ` · Max flexion ${formatPosture(jump.landing.maxFlexion)}`}
+                </p>
+              )}
+              {jump.landing?.stiffness && (
+                <p className="text-xs text-muted-foreground">{formatStiffness(jump.landing.stiffness)}</p>
+              )}
+              {validation.issues.map((issue) => (
+                <p key={issue.code} className="text-xs text-muted-foreground">
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Discard jump"
+              disabled={disabled}
+              onClick={() => onDiscard(jump.jumpNumber)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
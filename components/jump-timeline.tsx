@@ -0,0 +1,56 @@
+"use client"
+
+import type { JumpResult } from "@/lib/jump-detector"
+import { formatHeight } from "@/lib/jump-physics"
+
+interface JumpTimelineProps {
+  duration: number // media seconds
+  jumps: JumpResult[]
+  currentTime?: number
+  slowMotionFactor?: number
+  selectedJumpNumber?: number | null
+  onSeek?: (mediaTime: number) => void
+  onSelectJump?: (jump: JumpResult) => void
+}
+
+// Flight phases of detected jumps laid out along the media time of a clip
+export default function JumpTimeline({
+  duration,
+  jumps,
+  currentTime = 0,
+  slowMotionFactor = 1,
+  selectedJumpNumber = null,
+  onSeek,
+  onSelectJump,
+}: JumpTimelineProps) {
+  if (!(duration > 0)) return null
+  const toMediaTime = (ms: number) => (ms / 1000) * slowMotionFactor
+  const toPercent = (seconds: number) => `${Math.min(100, Math.max(0, (seconds / duration) * 100))}%`
+
+  return (
+    <div className="relative h-8 w-full bg-neutral-900 border-t border-white/10">
+      {jumps.map((jump) => {
+        const start = toMediaTime(jump.takeoffTime)
+        const end = toMediaTime(jump.landingTime)
+        return (
+          <button
+            key={jump.jumpNumber}
+            type="button"
+            title={`Jump #${jump.jumpNumber}: ${formatHeight(jump.flightTimeHeightCm)} (${jump.flightTime.toFixed(2)}s)`}
+            onClick={() => {
+              onSelectJump?.(jump)
+              onSeek?.(start)
+            }}
+            className={`absolute top-1 bottom-1 min-w-[4px] rounded-sm text-[10px] leading-6 text-black overflow-hidden ${
+              jump.manual ? "bg-sky-400/80 hover:bg-sky-300" : "bg-amber-400/80 hover:bg-amber-300"
+            } ${jump.jumpNumber === selectedJumpNumber ? "ring-2 ring-white" : ""}`}
+            style={{ left: toPercent(start), width: toPercent(end - start) }}
+          >
+            {jump.jumpNumber}
+          </button>
+        )
+      })}
+      <div className="absolute top-0 bottom-0 w-px bg-white pointer-events-none" style={{ left: toPercent(currentTime) }} />
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { useState } from "react"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { JumpResult } from "@/lib/jump-detector"
+import type { Side } from "@/lib/joint-angles"
+import type { HeightMethod } from "@/lib/height-method"
+import { LSI_RETURN_TO_PLAY, type LegSet, limbSymmetry } from "@/lib/limb-symmetry"
+
+interface LsiSummaryProps {
+  jumps: JumpResult[]
+  heightMethod?: HeightMethod
+}
+
+const formatCm = (cm: number | null) => (cm !== null ? `${cm.toFixed(1)} cm` : "-")
+
+// Left and right single-leg sets with the limb symmetry index of the involved leg
+export default function LsiSummary({ jumps, heightMethod = "flightTime" }: LsiSummaryProps) {
+  const [involved, setInvolved] = useState<Side>("left")
+  const symmetry = limbSymmetry(jumps, involved, heightMethod)
+  const bilateral = jumps.filter((jump) => jump.stanceLeg === "both").length
+
+  const renderSet = (set: LegSet) => (
+    <div className="rounded-md border p-2 space-y-1">
+      <div className="flex items-center justify-between">
+        <span className="font-medium capitalize">{set.side} leg</span>
+        {set.side === involved && <Badge variant="outline">Involved</Badge>}
+      </div>
+      <p className="text-muted-foreground">
+        {set.jumps.length} jump{set.jumps.length === 1 ? "" : "s"}
+      </p>
+      <p>Best: {formatCm(set.bestHeightCm)}</p>
+      <p>Mean: {formatCm(set.meanHeightCm)}</p>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <Label>Involved leg</Label>
+        <Select value={involved} onValueChange={(value) => setInvolved(value as Side)}>
+          <SelectTrigger className="w-28 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="left">Left</SelectItem>
+            <SelectItem value="right">Right</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {renderSet(symmetry.left)}
+        {renderSet(symmetry.right)}
+      </div>
+      {symmetry.lsiBest !== null ? (
+        <div className="flex items-center justify-between">
+          <span className="text-2xl font-bold">LSI {symmetry.lsiBest.toFixed(0)}%</span>
+          <Badge variant={symmetry.lsiBest >= LSI_RETURN_TO_PLAY ? "secondary" : "destructive"}>
+            {symmetry.lsiBest >= LSI_RETURN_TO_PLAY ? `≥ ${LSI_RETURN_TO_PLAY}%` : `Below ${LSI_RETURN_TO_PLAY}%`}
+          </Badge>
+        </div>
+      ) : (
+        <p className="text-muted-foreground">Jump on each leg to compute the limb symmetry index.</p>
+      )}
+      {symmetry.lsiMean !== null && (
+        <p className="text-xs text-muted-foreground">
+          Best-jump LSI; mean of all jumps gives {symmetry.lsiMean.toFixed(0)}%.
+          {bilateral > 0 && ` ${bilateral} two-footed jump${bilateral === 1 ? "" : "s"} excluded.`}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import type { JumpResult } from "@/lib/jump-detector"
+import { formatHeight } from "@/lib/jump-physics"
+import { netReachCm, reachOffsetCm } from "@/lib/reach"
+
+interface ReachPanelProps {
+  jumps: JumpResult[]
+  standingReachCm: number | null
+  statureCm: number | null // for the ankle and hand offsets
+  canMeasure: boolean
+  measuring: boolean
+  error: string | null
+  onMeasure: () => void
+}
+
+// Standing reach and the touch height of each jump, like a Vertec
+export default function ReachPanel({
+  jumps,
+  standingReachCm,
+  statureCm,
+  canMeasure,
+  measuring,
+  error,
+  onMeasure,
+}: ReachPanelProps) {
+  const offset = reachOffsetCm(statureCm)
+  const reaches = jumps
+    .filter((jump) => jump.reachCm !== null)
+    .map((jump) => ({ jumpNumber: jump.jumpNumber, reachCm: jump.reachCm! + offset }))
+  const best = reaches.reduce<(typeof reaches)[number] | null>((top, reach) => (!top || reach.reachCm > top.reachCm ? reach : top), null)
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span>Standing reach: {standingReachCm !== null ? formatHeight(standingReachCm) : "not measured"}</span>
+        <Button size="sm" variant="outline" disabled={!canMeasure || measuring} onClick={onMeasure}>
+          {measuring ? "Measuring..." : "Measure"}
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Stand side-on, fully in frame, with one arm stretched overhead. Needs a calibration
+        {statureCm === null && "; without an athlete height the wrist is used instead of the fingertips"}.
+      </p>
+      {error && <p className="text-destructive">{error}</p>}
+
+      {reaches.length > 0 && (
+        <div className="space-y-1">
+          {reaches.map((reach) => (
+            <div key={reach.jumpNumber} className="flex justify-between">
+              <span>Jump #{reach.jumpNumber}</span>
+              <span>
+                {formatHeight(reach.reachCm)}
+                {standingReachCm !== null && ` (+${netReachCm(reach.reachCm, standingReachCm).toFixed(1)} cm)`}
+              </span>
+            </div>
+          ))}
+          {best && (
+            <p className="font-medium pt-2">
+              Best jump reach {formatHeight(best.reachCm)}
+              {standingReachCm !== null && `, ${netReachCm(best.reachCm, standingReachCm).toFixed(1)} cm above standing reach`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
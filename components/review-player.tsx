@@ -0,0 +1,236 @@
+"use client"
+
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronLeft, ChevronRight, Pause, Play } from "lucide-react"
+import JumpTimeline from "./jump-timeline"
+import type { JumpResult } from "@/lib/jump-detector"
+import { formatHeight } from "@/lib/jump-physics"
+import { applyManualTiming, createManualJump, nextJumpNumber, sortJumps } from "@/lib/jump-review"
+
+interface ReviewPlayerProps {
+  src: string
+  jumps?: JumpResult[] | null
+  slowMotionFactor?: number
+  disabled?: boolean
+  onJumpsChange?: (jumps: JumpResult[]) => void
+}
+
+const PLAYBACK_RATES = ["0.1", "0.25", "0.5", "1"]
+const DEFAULT_FRAME_DURATION = 1 / 30
+
+// requestVideoFrameCallback is missing in older Firefox
+const supportsFrameCallback = (video: HTMLVideoElement) => typeof video.requestVideoFrameCallback === "function"
+
+// Frame-accurate playback of a clip with hand marking of takeoff and landing frames
+const ReviewPlayer = forwardRef<HTMLVideoElement, ReviewPlayerProps>(
+  ({ src, jumps = null, slowMotionFactor = 1, disabled = false, onJumpsChange }, ref) => {
+    const videoRef = useRef<HTMLVideoElement>(null)
+    useImperativeHandle(ref, () => videoRef.current!, [])
+
+    const frameDurationRef = useRef(DEFAULT_FRAME_DURATION) // media seconds, refined from presented frames
+    const [frameTime, setFrameTime] = useState(0)
+    const [duration, setDuration] = useState(0)
+    const [isPlaying, setIsPlaying] = useState(false)
+    const [playbackRate, setPlaybackRate] = useState("1")
+    const [selectedJumpNumber, setSelectedJumpNumber] = useState<number | null>(null)
+    const [pendingTakeoff, setPendingTakeoff] = useState<number | null>(null)
+    const [hint, setHint] = useState<string | null>(null)
+
+    // Follow the exact media time of every presented frame
+    useEffect(() => {
+      const video = videoRef.current
+      if (!video || !supportsFrameCallback(video)) return
+      let last: VideoFrameCallbackMetadata | null = null
+      let handle = 0
+      const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        // Only back-to-back frames of normal playback give a frame duration; a seek presents one frame far away
+        const previous = last
+        if (
+          previous &&
+          metadata.presentedFrames - previous.presentedFrames === 1 &&
+          metadata.mediaTime > previous.mediaTime &&
+          !video.paused &&
+          !video.seeking
+        ) {
+          frameDurationRef.current = metadata.mediaTime - previous.mediaTime
+        }
+        last = metadata
+        setFrameTime(metadata.mediaTime)
+        handle = video.requestVideoFrameCallback(onFrame)
+      }
+      const onSeeked = () => {
+        last = null
+      }
+      video.addEventListener("seeked", onSeeked)
+      handle = video.requestVideoFrameCallback(onFrame)
+      return () => {
+        video.removeEventListener("seeked", onSeeked)
+        video.cancelVideoFrameCallback(handle)
+      }
+    }, [src])
+
+    useEffect(() => {
+      frameDurationRef.current = DEFAULT_FRAME_DURATION
+      setSelectedJumpNumber(null)
+      setPendingTakeoff(null)
+      setHint(null)
+    }, [src])
+
+    useEffect(() => {
+      if (videoRef.current) videoRef.current.playbackRate = Number.parseFloat(playbackRate)
+    }, [playbackRate])
+
+    const togglePlay = () => {
+      const video = videoRef.current
+      if (!video) return
+      if (video.paused) {
+        video.play().catch((e) => console.error("Error playing video:", e))
+      } else {
+        video.pause()
+      }
+    }
+
+    // Seek into the middle of the neighbouring frame so the decoder lands on it exactly
+    const stepFrame = (direction: 1 | -1) => {
+      const video = videoRef.current
+      if (!video) return
+      video.pause()
+      const frameDuration = frameDurationRef.current
+      const target = frameTime + direction * frameDuration + frameDuration / 2
+      video.currentTime = Math.min(Math.max(target, 0), video.duration || target)
+    }
+
+    const toJumpTime = (mediaTime: number) => (mediaTime * 1000) / slowMotionFactor
+    const selectedJump = jumps?.find((jump) => jump.jumpNumber === selectedJumpNumber) ?? null
+
+    const updateJump = (updated: JumpResult | null) => {
+      if (!updated || !jumps) {
+        setHint("Landing must come after takeoff.")
+        return
+      }
+      setHint(null)
+      onJumpsChange?.(sortJumps(jumps.map((jump) => (jump.jumpNumber === updated.jumpNumber ? updated : jump))))
+    }
+
+    const markTakeoff = () => {
+      if (selectedJump) {
+        updateJump(applyManualTiming(selectedJump, { takeoffTime: toJumpTime(frameTime) }))
+      } else {
+        setHint(null)
+        setPendingTakeoff(toJumpTime(frameTime))
+      }
+    }
+
+    const markLanding = () => {
+      if (selectedJump) {
+        updateJump(applyManualTiming(selectedJump, { landingTime: toJumpTime(frameTime) }))
+        return
+      }
+      if (pendingTakeoff === null) {
+        setHint("Mark the takeoff frame first.")
+        return
+      }
+      const manualJump = createManualJump(pendingTakeoff, toJumpTime(frameTime))
+      if (!manualJump) {
+        setHint("Landing must come after takeoff.")
+        return
+      }
+      setHint(null)
+      setPendingTakeoff(null)
+      const jumpNumber = nextJumpNumber(jumps ?? [])
+      setSelectedJumpNumber(jumpNumber)
+      onJumpsChange?.(sortJumps([...(jumps ?? []), { ...manualJump, jumpNumber }]))
+    }
+
+    return (
+      <div className="flex flex-col w-full h-full">
+        <video
+          ref={videoRef}
+          src={src}
+          playsInline
+          muted
+          onClick={togglePlay}
+          className="flex-1 min-h-0 w-full object-contain"
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onDurationChange={(e) => setDuration(e.currentTarget.duration)}
+          onSeeked={(e) => {
+            if (!supportsFrameCallback(e.currentTarget)) setFrameTime(e.currentTarget.currentTime)
+          }}
+          onTimeUpdate={(e) => {
+            if (!supportsFrameCallback(e.currentTarget)) setFrameTime(e.currentTarget.currentTime)
+          }}
+        />
+        {jumps && (
+          <JumpTimeline
+            duration={duration}
+            jumps={jumps}
+            currentTime={frameTime}
+            slowMotionFactor={slowMotionFactor}
+            selectedJumpNumber={selectedJumpNumber}
+            onSelectJump={(jump) => {
+              setPendingTakeoff(null)
+              setSelectedJumpNumber(jump.jumpNumber === selectedJumpNumber ? null : jump.jumpNumber)
+            }}
+            onSeek={(time) => {
+              if (videoRef.current) videoRef.current.currentTime = time
+            }}
+          />
+        )}
+        <div className="flex flex-wrap items-center gap-2 bg-neutral-900 px-2 py-1 text-white text-xs">
+          <Button size="icon" variant="ghost" className="h-7 w-7" disabled={disabled} onClick={() => stepFrame(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+            <span className="sr-only">Previous frame</span>
+          </Button>
+          <Button size="icon" variant="ghost" className="h-7 w-7" disabled={disabled} onClick={togglePlay}>
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+            <span className="sr-only">{isPlaying ? "Pause" : "Play"}</span>
+          </Button>
+          <Button size="icon" variant="ghost" className="h-7 w-7" disabled={disabled} onClick={() => stepFrame(1)}>
+            <ChevronRight className="h-4 w-4" />
+            <span className="sr-only">Next frame</span>
+          </Button>
+          <Select value={playbackRate} onValueChange={setPlaybackRate} disabled={disabled}>
+            <SelectTrigger className="w-20 h-7 text-xs text-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PLAYBACK_RATES.map((rate) => (
+                <SelectItem key={rate} value={rate}>
+                  {rate}x
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="tabular-nums">{frameTime.toFixed(3)}s</span>
+          <div className="flex-1" />
+          <Button size="sm" variant="secondary" className="h-7" disabled={disabled} onClick={markTakeoff}>
+            {pendingTakeoff !== null && !selectedJump ? "Takeoff ✓" : "Mark Takeoff"}
+          </Button>
+          <Button size="sm" variant="secondary" className="h-7" disabled={disabled} onClick={markLanding}>
+            Mark Landing
+          </Button>
+        </div>
+        {(selectedJump || hint) && (
+          <div className="bg-neutral-900 px-2 pb-1 text-white text-xs">
+            {hint ? (
+              <span className="text-red-400">{hint}</span>
+            ) : (
+              selectedJump && (
+                <span>
+                  Jump #{selectedJump.jumpNumber}: {selectedJump.flightTime.toFixed(3)}s flight,{" "}
+                  {formatHeight(selectedJump.flightTimeHeightCm)} {selectedJump.manual ? "(manual)" : "(auto)"}
+                </span>
+              )
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+)
+ReviewPlayer.displayName = "ReviewPlayer"
+
+export default ReviewPlayer
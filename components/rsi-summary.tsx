@@ -0,0 +1,92 @@
+"use client"
+
+import { useState } from "react"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { JumpResult } from "@/lib/jump-detector"
+import type { JumpProtocol } from "@/lib/protocol"
+import { REPEATED_JUMP_BEST, REPEATED_JUMP_REPS, type RsiMethod, repeatedJumpTest, rsiReps } from "@/lib/rsi"
+
+interface RsiSummaryProps {
+  jumps: JumpResult[]
+  protocol: JumpProtocol
+}
+
+const RSI_METHOD_LABELS: Record<RsiMethod, string> = {
+  flightTime: "Flight ÷ contact",
+  height: "Height ÷ contact (m/s)",
+}
+
+// Ground contact times and reactive strength index per rep, with the 10/5 score for repeated hops
+export default function RsiSummary({ jumps, protocol }: RsiSummaryProps) {
+  const [method, setMethod] = useState<RsiMethod>("flightTime")
+  const test = protocol === "repeatedHops" ? repeatedJumpTest(jumps, method) : null
+  const reps = test ? test.reps : rsiReps(jumps, method)
+  const bestJumpNumbers = new Set(test?.best.map((rep) => rep.jumpNumber))
+  const bestRep = reps.reduce<(typeof reps)[number] | null>((best, rep) => (!best || rep.rsi > best.rsi ? rep : best), null)
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Label>RSI</Label>
+        <Select value={method} onValueChange={(value) => setMethod(value as RsiMethod)}>
+          <SelectTrigger className="w-48 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(RSI_METHOD_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {reps.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {protocol === "dropJump"
+            ? "Step off the box and rebound as fast as possible."
+            : `Hop ${REPEATED_JUMP_REPS} times in a row with minimal ground contact.`}
+        </p>
+      ) : (
+        <>
+          <div className="max-h-60 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Flight</TableHead>
+                  <TableHead>Height</TableHead>
+                  <TableHead>RSI</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reps.map((rep) => (
+                  <TableRow key={rep.jumpNumber} className={bestJumpNumbers.has(rep.jumpNumber) ? "font-medium" : ""}>
+                    <TableCell>{rep.jumpNumber}</TableCell>
+                    <TableCell>{rep.contactTime.toFixed(3)} s</TableCell>
+                    <TableCell>{rep.flightTime.toFixed(3)} s</TableCell>
+                    <TableCell>{rep.heightCm.toFixed(1)} cm</TableCell>
+                    <TableCell>{rep.rsi.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          <p className="text-sm">
+            {test
+              ? `10/5 RSI ${test.averageRsi.toFixed(2)} (best ${Math.min(REPEATED_JUMP_BEST, test.best.length)} of ${
+                  test.reps.length
+                }/${REPEATED_JUMP_REPS} hops, ${(test.averageContactTime * 1000).toFixed(0)} ms contact)${
+                  test.complete ? "" : " · incomplete"
+                }`
+              : bestRep && `Best RSI ${bestRep.rsi.toFixed(2)} (jump #${bestRep.jumpNumber})`}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
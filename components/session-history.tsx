@@ -0,0 +1,100 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Download, Trash2 } from "lucide-react"
+import { type StoredSession, deleteSession, listSessions } from "@/lib/session-store"
+import { fileExtensionForMimeType } from "@/lib/media-recorder"
+import { formatHeight } from "@/lib/jump-physics"
+import type { Athlete } from "@/lib/athlete-store"
+
+interface SessionHistoryProps {
+  refreshKey?: number
+  athletes?: Athlete[]
+  onLoad: (session: StoredSession) => void
+}
+
+const SOURCE_LABELS: Record<StoredSession["source"], string> = {
+  live: "Live",
+  recording: "Recording",
+  upload: "Upload",
+  trace: "Trace",
+}
+
+export default function SessionHistory({ refreshKey = 0, athletes = [], onLoad }: SessionHistoryProps) {
+  const [sessions, setSessions] = useState<StoredSession[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    listSessions()
+      .then((result) => {
+        if (!cancelled) setSessions(result)
+      })
+      .catch((err) => {
+        console.error("Error loading session history:", err)
+        if (!cancelled) setError("Could not load session history.")
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [refreshKey])
+
+  const removeSession = async (id: string) => {
+    try {
+      await deleteSession(id)
+      setSessions((prev) => prev?.filter((session) => session.id !== id) ?? null)
+    } catch (err) {
+      console.error("Error deleting session:", err)
+      setError("Could not delete session.")
+    }
+  }
+
+  const downloadVideo = (session: StoredSession) => {
+    if (!session.video) return
+    const url = URL.createObjectURL(session.video)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `verticai-${session.id}.${fileExtensionForMimeType(session.video.type)}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  if (error) return <p className="text-sm text-destructive">{error}</p>
+  if (!sessions) return <p className="text-sm text-muted-foreground">Loading history...</p>
+  if (sessions.length === 0) return <p className="text-sm text-muted-foreground">No saved sessions yet.</p>
+
+  return (
+    <div className="max-h-72 overflow-y-auto space-y-2">
+      {sessions.map((session) => {
+        const bestHeightCm = Math.max(0, ...session.jumps.map((jump) => jump.flightTimeHeightCm))
+        const athlete = athletes.find((candidate) => candidate.id === session.athleteId)
+        return (
+          <div key={session.id} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+            <button type="button" className="flex-1 text-left" onClick={() => onLoad(session)}>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{format(session.createdAt, "MMM d, yyyy HH:mm")}</span>
+                <Badge variant="secondary">{SOURCE_LABELS[session.source]}</Badge>
+                {athlete && <Badge variant="outline">{athlete.name}</Badge>}
+              </div>
+              <div className="text-muted-foreground">
+                {session.jumps.length} jump{session.jumps.length === 1 ? "" : "s"}
+                {session.jumps.length > 0 && ` · Best ${formatHeight(bestHeightCm)}`}
+              </div>
+            </button>
+            {session.video && (
+              <Button variant="ghost" size="icon" title="Download video" onClick={() => downloadVideo(session)}>
+                <Download className="h-4 w-4" />
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" title="Delete session" onClick={() => removeSession(session.id)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { JumpResult } from "@/lib/jump-detector"
+import { estimateJumpPower, formatPower, takeoffVelocity } from "@/lib/jump-physics"
+import { HEIGHT_METHOD_LABELS, type HeightMethod, jumpHeightCm } from "@/lib/height-method"
+
+interface SessionSummaryProps {
+  jumps: JumpResult[]
+  bodyMassKg?: number | null // power columns need the athlete's body mass
+  heightMethod?: HeightMethod
+}
+
+const HEIGHT_COLUMNS: { method: HeightMethod; title: string }[] = [
+  { method: "flightTime", title: "Flight ht" },
+  { method: "ankle", title: "Ankle" },
+  { method: "centerOfMass", title: "CoM" },
+]
+
+// Per-jump height, takeoff velocity and estimated peak power for the current session
+export default function SessionSummary({ jumps, bodyMassKg = null, heightMethod = "flightTime" }: SessionSummaryProps) {
+  if (jumps.length === 0) return null
+  const powers = bodyMassKg ? jumps.map((jump) => estimateJumpPower(jump, bodyMassKg)) : null
+  const bestPower = powers?.reduce((best, power) => (power.sayersPeakPower > best.sayersPeakPower ? power : best))
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="max-h-60 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              {HEIGHT_COLUMNS.map(({ method, title }) => (
+                <TableHead key={method} className={method === heightMethod ? "text-foreground" : ""}>
+                  {title}
+                </TableHead>
+              ))}
+              <TableHead>Flight</TableHead>
+              <TableHead>Velocity</TableHead>
+              {powers && (
+                <>
+                  <TableHead>Sayers</TableHead>
+                  <TableHead>Harman</TableHead>
+                  <TableHead>W/kg</TableHead>
+                </>
+              )}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jumps.map((jump, index) => (
+              <TableRow key={jump.jumpNumber}>
+                <TableCell>{jump.jumpNumber}</TableCell>
+                {HEIGHT_COLUMNS.map(({ method }) => {
+                  const heightCm = jumpHeightCm(jump, method)
+                  return (
+                    <TableCell key={method} className={method === heightMethod ? "font-medium" : ""}>
+                      {heightCm !== null ? `${heightCm.toFixed(1)} cm` : "-"}
+                    </TableCell>
+                  )
+                })}
+                <TableCell>{jump.flightTime.toFixed(3)} s</TableCell>
+                <TableCell>{takeoffVelocity(jump.flightTime).toFixed(2)} m/s</TableCell>
+                {powers && (
+                  <>
+                    <TableCell>{Math.round(powers[index].sayersPeakPower)} W</TableCell>
+                    <TableCell>{Math.round(powers[index].harmanPeakPower)} W</TableCell>
+                    <TableCell>{powers[index].relativePeakPower.toFixed(1)}</TableCell>
+                  </>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {bestPower
+          ? `Best peak power ${formatPower(bestPower)}, Sayers. `
+          : "Select an athlete with a body mass to estimate peak power. "}
+        Heights in cm; {HEIGHT_METHOD_LABELS[heightMethod].toLowerCase()} is the reported method. Velocity is g·t/2
+        from flight time.
+      </p>
+    </div>
+  )
+}
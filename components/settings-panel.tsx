@@ -0,0 +1,90 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { HEIGHT_METHOD_LABELS, type HeightMethod } from "@/lib/height-method"
+import { POSE_MODEL_LABELS, type PoseModel } from "@/lib/pose-model"
+import { CAPTURE_PREFERENCE_LABELS, type CapturePreference } from "@/lib/camera-capture"
+import type { Settings } from "@/hooks/use-settings"
+
+interface SettingsPanelProps {
+  settings: Settings
+  disabled?: boolean
+  onChange: (changes: Partial<Settings>) => void
+}
+
+export default function SettingsPanel({ settings, disabled = false, onChange }: SettingsPanelProps) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="height-method">Jump height method</Label>
+        <Select
+          value={settings.heightMethod}
+          onValueChange={(value) => onChange({ heightMethod: value as HeightMethod })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="height-method">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(HEIGHT_METHOD_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Centre of mass uses every visible body segment, so tucked feet don't inflate the height. Displacement methods
+          need a calibration.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="pose-model">Pose model</Label>
+        <Select
+          value={settings.poseModel}
+          onValueChange={(value) => onChange({ poseModel: value as PoseModel })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="pose-model">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(POSE_MODEL_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          BlazePose tracks the heels and toes, which mark ground contact more precisely than the ankles. Thunder and
+          BlazePose are slower on older phones.
+        </p>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="capture-preference">Camera capture</Label>
+        <Select
+          value={settings.capturePreference}
+          onValueChange={(value) => onChange({ capturePreference: value as CapturePreference })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="capture-preference">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CAPTURE_PREFERENCE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Flight time is only as precise as the frame interval: ±33 ms at 30 fps, ±8 ms at 120 fps. The camera uses
+          the highest frame rate it supports at the chosen resolution; the achieved settings show on the video.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Download, Upload } from "lucide-react"
+import { type PoseTrace, parseTrace, serializeTrace } from "@/lib/pose-trace"
+
+interface TracePanelProps {
+  lastTrace: PoseTrace | null
+  disabled?: boolean
+  onReplay: (trace: PoseTrace) => void
+}
+
+export default function TracePanel({ lastTrace, disabled = false, onReplay }: TracePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const downloadTrace = () => {
+    if (!lastTrace) return
+    const blob = new Blob([serializeTrace(lastTrace)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `verticai-trace-${lastTrace.createdAt.replace(/[:.]/g, "-")}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    try {
+      const trace = parseTrace(await file.text())
+      setError(null)
+      onReplay(trace)
+    } catch (err: any) {
+      console.error("Error loading pose trace:", err)
+      setError(`Could not load trace: ${err.message || "Unknown error"}`)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" disabled={!lastTrace || disabled} onClick={downloadTrace}>
+          <Download className="h-4 w-4 mr-2" />
+          Download Trace
+        </Button>
+        <Button variant="outline" className="flex-1" disabled={disabled} onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Replay Trace
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {lastTrace
+          ? `Last session: ${lastTrace.frames.length} frames recorded`
+          : "Run an analysis to record a pose trace."}
+      </p>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
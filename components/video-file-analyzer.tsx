@@ -0,0 +1,172 @@
+"use client"
+
+import { useRef, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Upload } from "lucide-react"
+import ReviewPlayer from "./review-player"
+import { useVideoAnalysis } from "@/hooks/use-video-analysis"
+import type { PoseTrace } from "@/lib/pose-trace"
+import type { Calibration } from "@/lib/calibration"
+import type { JumpResult } from "@/lib/jump-detector"
+import type { PoseModel } from "@/lib/pose-model"
+import { formatHeight } from "@/lib/jump-physics"
+
+interface VideoFileAnalyzerProps {
+  calibration?: Calibration | null
+  onAnalyzed: (trace: PoseTrace, video?: Blob) => void
+  reviewedJumps?: JumpResult[] // the page's jumps, including discards made there
+  reviewedTrace?: PoseTrace | null // the analysis reviewedJumps belong to
+  onJumpsReviewed?: (jumps: JumpResult[]) => void
+  poseModel?: PoseModel
+}
+
+const FRAME_RATES = ["30", "60", "120", "240"]
+
+export default function VideoFileAnalyzer({
+  calibration = null,
+  onAnalyzed,
+  reviewedJumps,
+  reviewedTrace = null,
+  onJumpsReviewed,
+  poseModel = "lightning",
+}: VideoFileAnalyzerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [videoUrl, setVideoUrl] = useState<string | null>(null)
+  const [videoFile, setVideoFile] = useState<File | null>(null)
+  const [frameRate, setFrameRate] = useState("30")
+  const [slowMotionFactor, setSlowMotionFactor] = useState("1")
+  const { status, progress, error, result, analyze, cancel, clear, updateJumps } = useVideoAnalysis(calibration, poseModel)
+  const slowMotion = Number.parseFloat(slowMotionFactor) || 1
+
+  // Release the object URL when the file changes
+  useEffect(() => {
+    return () => {
+      if (videoUrl) URL.revokeObjectURL(videoUrl)
+    }
+  }, [videoUrl])
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    clear()
+    setVideoFile(file)
+    setVideoUrl(URL.createObjectURL(file))
+  }
+
+  const runAnalysis = async () => {
+    if (!videoRef.current) return
+    const analysis = await analyze(videoRef.current, {
+      frameRate: Number.parseInt(frameRate),
+      slowMotionFactor: slowMotion,
+    })
+    if (analysis) onAnalyzed(analysis.trace, videoFile ?? undefined)
+  }
+
+  const handleJumpsReviewed = (jumps: JumpResult[]) => {
+    updateJumps(jumps)
+    onJumpsReviewed?.(jumps)
+  }
+
+  const isAnalyzing = status === "analyzing"
+  const jumps = result?.trace === reviewedTrace && reviewedJumps ? reviewedJumps : result?.jumps
+  const bestJump = jumps?.reduce<JumpResult | null>(
+    (best, jump) => (!best || jump.flightTime > best.flightTime ? jump : best),
+    null
+  )
+
+  return (
+    <div className="relative w-full h-full">
+      {videoUrl ? (
+        <ReviewPlayer
+          ref={videoRef}
+          src={videoUrl}
+          jumps={jumps}
+          slowMotionFactor={slowMotion}
+          disabled={status !== "idle"}
+          onJumpsChange={handleJumpsReviewed}
+        />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Choose Video File
+          </Button>
+        </div>
+      )}
+      <input ref={fileInputRef} type="file" accept="video/*" className="hidden" onChange={handleFileChange} />
+
+      {status === "loading" && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+          <div className="text-white text-center">
+            <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-white mx-auto mb-2"></div>
+            <p>Loading AI model...</p>
+          </div>
+        </div>
+      )}
+
+      {videoUrl && status !== "loading" && (
+        <div className="absolute top-4 left-4 right-4 bg-black/50 p-3 rounded-md text-white text-sm space-y-2">
+          {isAnalyzing ? (
+            <div className="flex items-center gap-3">
+              <Progress value={progress * 100} className="h-2 flex-1" />
+              <span>{Math.round(progress * 100)}%</span>
+              <Button size="sm" variant="destructive" onClick={cancel}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label>Sample rate (fps)</Label>
+                <Select value={frameRate} onValueChange={setFrameRate}>
+                  <SelectTrigger className="w-24 h-8 text-foreground">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FRAME_RATES.map((rate) => (
+                      <SelectItem key={rate} value={rate}>
+                        {rate}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="slow-motion-factor">Slow-motion factor</Label>
+                <Input
+                  id="slow-motion-factor"
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={slowMotionFactor}
+                  onChange={(e) => setSlowMotionFactor(e.target.value)}
+                  className="w-24 h-8 text-foreground"
+                />
+              </div>
+              <Button size="sm" onClick={runAnalysis}>
+                Analyze Video
+              </Button>
+              <Button size="sm" variant="outline" className="text-foreground" onClick={() => fileInputRef.current?.click()}>
+                Change File
+              </Button>
+            </div>
+          )}
+          {jumps && !isAnalyzing && (
+            <p>
+              {jumps.length} jump{jumps.length === 1 ? "" : "s"} detected
+              {bestJump &&
+                ` · Best: ${formatHeight(bestJump.flightTimeHeightCm)} (${bestJump.flightTime.toFixed(2)}s flight)`}
+            </p>
+          )}
+          {error && <p className="text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
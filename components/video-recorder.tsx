@@ -1,22 +1,57 @@
 "use client"
 
 import { useRef, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Activity } from "lucide-react"
+import ReviewPlayer from "./review-player"
+import { useVideoAnalysis } from "@/hooks/use-video-analysis"
+import type { Calibration } from "@/lib/calibration"
+import type { PoseTrace } from "@/lib/pose-trace"
+import type { JumpResult } from "@/lib/jump-detector"
+import type { PoseModel } from "@/lib/pose-model"
+import { getSupportedMimeType } from "@/lib/media-recorder"
+import { type CapturePreference, type CaptureSettings, formatCaptureSettings } from "@/lib/camera-capture"
+import getBestCameraStream from "./camera-stream"
 
 interface VideoRecorderProps {
   isRecording: boolean
   facingMode?: "user" | "environment"
+  calibration?: Calibration | null
+  onAnalyzed?: (trace: PoseTrace, video?: Blob) => void
+  reviewedJumps?: JumpResult[] // the page's jumps, including discards made there
+  reviewedTrace?: PoseTrace | null // the analysis reviewedJumps belong to
+  onJumpsReviewed?: (jumps: JumpResult[]) => void
+  poseModel?: PoseModel
+  capturePreference?: CapturePreference
 }
 
-export default function VideoRecorder({ isRecording, facingMode = "environment" }: VideoRecorderProps) {
+export default function VideoRecorder({
+  isRecording,
+  facingMode = "environment",
+  calibration = null,
+  onAnalyzed,
+  reviewedJumps,
+  reviewedTrace = null,
+  onJumpsReviewed,
+  poseModel = "lightning",
+  capturePreference = "balanced",
+}: VideoRecorderProps) {
   const videoRef = useRef<HTMLVideoElement>(null)
+  const playbackRef = useRef<HTMLVideoElement>(null)
   const mediaRecorderRef = useRef<MediaRecorder | null>(null)
-  const [recordedChunks, setRecordedChunks] = useState<Blob[]>([])
+  const recordedChunksRef = useRef<Blob[]>([])
+  const recordedBlobRef = useRef<Blob | null>(null)
   const [videoUrl, setVideoUrl] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [cameraLoading, setCameraLoading] = useState(true)
   const streamRef = useRef<MediaStream | null>(null)
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings | null>(null)
+  const recordedFrameRateRef = useRef<number | null>(null) // analysis samples every recorded frame
+  const analysis = useVideoAnalysis(calibration, poseModel)
+  const jumps = analysis.result?.trace === reviewedTrace && reviewedJumps ? reviewedJumps : analysis.result?.jumps
 
-  // Update camera when facingMode changes
+  // Update camera when facingMode or the capture preference changes
   useEffect(() => {
     // Stop any existing stream
     if (streamRef.current) {
@@ -32,26 +67,19 @@ export default function VideoRecorder({ isRecording, facingMode = "environment"
     setCameraLoading(true)
     setError(null)
     setupCamera()
-  }, [facingMode])
+  }, [facingMode, capturePreference])
 
   const setupCamera = async () => {
     setCameraLoading(true)
     setError(null)
 
     try {
-      // Get user media with constraints that work well on mobile devices
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          facingMode: facingMode, // Use specified camera
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          frameRate: { ideal: 30 }, // Lower framerate for better compatibility
-        },
-        audio: false,
-      })
+      // Highest frame rate the camera supports at the preferred resolution
+      const { stream, settings } = await getBestCameraStream(facingMode, capturePreference)
 
       // Store stream reference for cleanup
       streamRef.current = stream
+      setCaptureSettings(settings)
 
       if (videoRef.current) {
         videoRef.current.srcObject = stream
@@ -94,7 +122,7 @@ export default function VideoRecorder({ isRecording, facingMode = "environment"
         streamRef.current = null
       }
     }
-  }, [facingMode])
+  }, [facingMode, capturePreference])
 
   useEffect(() => {
     if (!videoRef.current?.srcObject || error) return
@@ -107,8 +135,10 @@ export default function VideoRecorder({ isRecording, facingMode = "environment"
   }, [isRecording, error])
 
   const startRecording = () => {
-    setRecordedChunks([])
+    recordedChunksRef.current = []
+    recordedFrameRateRef.current = captureSettings?.frameRate ?? null
     setVideoUrl(null)
+    analysis.clear()
 
     if (videoRef.current?.srcObject) {
       const stream = videoRef.current.srcObject as MediaStream
@@ -125,16 +155,17 @@ export default function VideoRecorder({ isRecording, facingMode = "environment"
 
         mediaRecorder.ondataavailable = (event) => {
           if (event.data.size > 0) {
-            setRecordedChunks((prev) => [...prev, event.data])
+            recordedChunksRef.current.push(event.data)
           }
         }
 
         mediaRecorder.onstop = () => {
-          if (recordedChunks.length > 0) {
-            const blob = new Blob(recordedChunks, {
+          if (recordedChunksRef.current.length > 0) {
+            const blob = new Blob(recordedChunksRef.current, {
               type: mimeType,
             })
             const url = URL.createObjectURL(blob)
+            recordedBlobRef.current = blob
             setVideoUrl(url)
           }
         }
@@ -153,17 +184,19 @@ export default function VideoRecorder({ isRecording, facingMode = "environment"
     }
   }
 
-  // Helper function to get supported MIME type for MediaRecorder
-  const getSupportedMimeType = () => {
-    const types = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm", "video/mp4"]
-
-    for (const type of types) {
-      if (MediaRecorder.isTypeSupported(type)) {
-        return type
-      }
-    }
+  // Run the pose and jump pipeline over the recorded clip
+  const analyzeRecording = async () => {
+    if (!playbackRef.current) return
+    const result = await analysis.analyze(playbackRef.current, {
+      flipHorizontal: facingMode === "user",
+      frameRate: recordedFrameRateRef.current ? Math.round(recordedFrameRateRef.current) : undefined,
+    })
+    if (result) onAnalyzed?.(result.trace, recordedBlobRef.current ?? undefined)
+  }
 
-    return "video/webm" // Fallback
+  const handleJumpsReviewed = (jumps: JumpResult[]) => {
+    analysis.updateJumps(jumps)
+    onJumpsReviewed?.(jumps)
   }
 
   // Function to retry camera setup
@@ -189,7 +222,40 @@ export default function VideoRecorder({ isRecording, facingMode = "environment"
         {!videoUrl ? (
           <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
         ) : (
-          <video src={videoUrl} controls playsInline className="w-full h-full object-contain" />
+          <ReviewPlayer
+            ref={playbackRef}
+            src={videoUrl}
+            jumps={jumps}
+            disabled={analysis.status !== "idle"}
+            onJumpsChange={handleJumpsReviewed}
+          />
+        )}
+
+        {videoUrl && (
+          <div className="absolute top-4 left-4 right-4 flex items-center gap-3 text-white text-sm">
+            {analysis.status === "idle" ? (
+              <>
+                <Button size="sm" variant="secondary" onClick={analyzeRecording}>
+                  <Activity className="h-4 w-4 mr-2" />
+                  {analysis.result ? "Re-analyze" : "Analyze this recording"}
+                </Button>
+                {jumps && (
+                  <span className="bg-black/50 px-2 py-1 rounded-md">
+                    {jumps.length} jump{jumps.length === 1 ? "" : "s"} detected
+                  </span>
+                )}
+                {analysis.error && <span className="bg-black/50 px-2 py-1 rounded-md text-red-400">{analysis.error}</span>}
+              </>
+            ) : (
+              <div className="flex flex-1 items-center gap-3 bg-black/50 p-2 rounded-md">
+                <span>{analysis.status === "loading" ? "Loading AI model..." : "Analyzing..."}</span>
+                <Progress value={analysis.progress * 100} className="h-2 flex-1" />
+                <Button size="sm" variant="destructive" onClick={analysis.cancel}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </div>
         )}
 
         {cameraLoading && !videoUrl && (
@@ -217,6 +283,12 @@ export default function VideoRecorder({ isRecording, facingMode = "environment"
           </div>
         )}
 
+        {captureSettings && !cameraLoading && !error && !videoUrl && (
+          <div className="absolute top-4 left-4 bg-black/50 px-2 py-1 rounded-md text-white text-xs">
+            {formatCaptureSettings(captureSettings)}
+          </div>
+        )}
+
         {isRecording && !error && !videoUrl && (
           <div className="absolute top-4 right-4 flex items-center">
             <div className="w-3 h-3 rounded-full bg-red-500 animate-pulse mr-2"></div>
@@ -0,0 +1,47 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { type Athlete, type AthleteProfile, listAthletes, saveAthlete } from "@/lib/athlete-store"
+
+const ACTIVE_ATHLETE_KEY = "verticai-active-athlete"
+
+// Athlete profiles from IndexedDB plus the active athlete, remembered across reloads
+export function useAthletes() {
+  const [athletes, setAthletes] = useState<Athlete[]>([])
+  const [activeAthleteId, setActiveAthleteIdState] = useState<string | null>(null)
+
+  useEffect(() => {
+    listAthletes()
+      .then((result) => {
+        setAthletes(result)
+        const storedId = localStorage.getItem(ACTIVE_ATHLETE_KEY)
+        if (storedId && result.some((athlete) => athlete.id === storedId)) {
+          setActiveAthleteIdState(storedId)
+        }
+      })
+      .catch((err) => console.error("Error loading athletes:", err))
+  }, [])
+
+  const setActiveAthleteId = (id: string | null) => {
+    if (id) {
+      localStorage.setItem(ACTIVE_ATHLETE_KEY, id)
+    } else {
+      localStorage.removeItem(ACTIVE_ATHLETE_KEY)
+    }
+    setActiveAthleteIdState(id)
+  }
+
+  // Create or update a profile and make it the active athlete
+  const save = async (profile: AthleteProfile, id?: string) => {
+    const athlete = await saveAthlete(profile, id)
+    setAthletes((prev) =>
+      [...prev.filter((existing) => existing.id !== athlete.id), athlete].sort((a, b) => a.name.localeCompare(b.name))
+    )
+    setActiveAthleteId(athlete.id)
+    return athlete
+  }
+
+  const activeAthlete = athletes.find((athlete) => athlete.id === activeAthleteId) ?? null
+
+  return { athletes, activeAthlete, setActiveAthleteId, saveAthlete: save }
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { HeightMethod } from "@/lib/height-method"
+import type { PoseModel } from "@/lib/pose-model"
+import type { CapturePreference } from "@/lib/camera-capture"
+
+export interface Settings {
+  heightMethod: HeightMethod
+  poseModel: PoseModel
+  capturePreference: CapturePreference
+}
+
+const SETTINGS_KEY = "verticai-settings"
+
+const DEFAULT_SETTINGS: Settings = {
+  heightMethod: "flightTime",
+  poseModel: "lightning",
+  capturePreference: "balanced",
+}
+
+// Analysis preferences remembered on this device. Until loaded is true the settings
+// are the defaults, so anything that loads a model or opens the camera should wait.
+export function useSettings() {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(SETTINGS_KEY)
+      if (stored) setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(stored) })
+    } catch (err) {
+      console.error("Error loading settings:", err)
+    }
+    setLoaded(true)
+  }, [])
+
+  const updateSettings = (changes: Partial<Settings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...changes }
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(next))
+      return next
+    })
+  }
+
+  return { settings, loaded, updateSettings }
+}
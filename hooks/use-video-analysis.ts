@@ -0,0 +1,95 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type * as poseDetection from "@tensorflow-models/pose-detection"
+import type { PoseModel } from "@/lib/pose-model"
+import { createPoseDetector } from "@/lib/pose-inference"
+import { type VideoAnalysisOptions, analyzeVideo } from "@/lib/video-analysis"
+import { type PoseTrace, replayTrace } from "@/lib/pose-trace"
+import type { Calibration } from "@/lib/calibration"
+import type { JumpResult } from "@/lib/jump-detector"
+
+type AnalysisStatus = "idle" | "loading" | "analyzing"
+
+export interface VideoAnalysisResult {
+  trace: PoseTrace
+  jumps: JumpResult[]
+}
+
+// Runs the pose and jump pipeline over a <video> element, loading the model on first use
+export function useVideoAnalysis(calibration: Calibration | null = null, poseModel: PoseModel = "lightning") {
+  const detectorRef = useRef<poseDetection.PoseDetector | null>(null)
+  const detectorModelRef = useRef<PoseModel | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const [status, setStatus] = useState<AnalysisStatus>("idle")
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<VideoAnalysisResult | null>(null)
+
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort()
+      detectorRef.current?.dispose()
+      detectorRef.current = null
+    }
+  }, [])
+
+  const analyze = async (
+    video: HTMLVideoElement,
+    options: Omit<VideoAnalysisOptions, "onProgress" | "signal"> = {}
+  ): Promise<VideoAnalysisResult | null> => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setResult(null)
+    setProgress(0)
+
+    try {
+      // Reload when another model was picked since the last analysis
+      if (!detectorRef.current || detectorModelRef.current !== poseModel) {
+        setStatus("loading")
+        detectorRef.current?.dispose()
+        detectorRef.current = null
+        detectorRef.current = await createPoseDetector(poseModel)
+        detectorModelRef.current = poseModel
+      }
+      setStatus("analyzing")
+      const trace = await analyzeVideo(video, detectorRef.current, {
+        ...options,
+        onProgress: setProgress,
+        signal: controller.signal,
+      })
+      if (!trace) {
+        setError("No frames could be analyzed in this video.")
+        return null
+      }
+      const analysis = { trace, jumps: replayTrace(trace, { calibration }).jumps }
+      setResult(analysis)
+      return analysis
+    } catch (err: any) {
+      if (err.name !== "AbortError") {
+        console.error("Error analyzing video:", err)
+        setError(`Could not analyze video: ${err.message || "Unknown error"}`)
+      }
+      return null
+    } finally {
+      abortRef.current = null
+      setStatus("idle")
+    }
+  }
+
+  const cancel = () => abortRef.current?.abort()
+
+  // Replace the detected jumps, e.g. after manual review
+  const updateJumps = (jumps: JumpResult[]) => {
+    setResult((prev) => (prev ? { ...prev, jumps } : prev))
+  }
+
+  const clear = () => {
+    cancel()
+    setResult(null)
+    setError(null)
+  }
+
+  return { status, progress, error, result, analyze, cancel, clear, updateJumps }
+}
@@ -0,0 +1,26 @@
+import type { JumpResult } from "./jump-detector"
+
+// Score above which a jump is highlighted as asymmetric
+export const ASYMMETRY_THRESHOLD = 10
+
+// Mean of the timing offsets relative to flight time and the peak difference relative to jump height, in %
+export function asymmetryScore(jump: JumpResult) {
+  const { asymmetry } = jump
+  if (!asymmetry || jump.flightTime <= 0) return null
+  const flightMs = jump.flightTime * 1000
+  const parts = [Math.abs(asymmetry.takeoffOffset) / flightMs]
+  if (asymmetry.landingOffset !== null) parts.push(Math.abs(asymmetry.landingOffset) / flightMs)
+  if (jump.displacementPx > 0) parts.push(Math.abs(asymmetry.peakDifferencePx) / jump.displacementPx)
+  return (parts.reduce((sum, part) => sum + part, 0) / parts.length) * 100
+}
+
+export function isAsymmetric(jump: JumpResult) {
+  const score = asymmetryScore(jump)
+  return score !== null && score > ASYMMETRY_THRESHOLD
+}
+
+// Mean score over the session's two-footed jumps
+export function sessionAsymmetryScore(jumps: JumpResult[]) {
+  const scores = jumps.map(asymmetryScore).filter((score): score is number => score !== null)
+  return scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null
+}
@@ -0,0 +1,43 @@
+import { z } from "zod"
+import { ATHLETE_STORE, createRecordId, withStore } from "./db"
+
+export const SPORTS = ["Basketball", "Volleyball", "Track & Field", "Other"] as const
+
+export const athleteSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  bodyMassKg: z.coerce.number().positive("Body mass must be positive").max(300, "Body mass looks too high"),
+  standingHeightCm: z.coerce.number().min(50, "Height looks too low").max(260, "Height looks too high"),
+  // Left blank when unknown
+  standingReachCm: z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    z.coerce.number().min(50, "Reach looks too low").max(350, "Reach looks too high").optional()
+  ),
+  sport: z.enum(SPORTS),
+})
+
+export type AthleteProfile = z.infer<typeof athleteSchema>
+
+export interface Athlete extends AthleteProfile {
+  id: string
+  createdAt: number // ms since epoch
+}
+
+export async function saveAthlete(profile: AthleteProfile, id?: string): Promise<Athlete> {
+  const existing = id ? await getAthlete(id) : null
+  const athlete: Athlete = {
+    ...profile,
+    id: existing?.id ?? createRecordId(),
+    createdAt: existing?.createdAt ?? Date.now(),
+  }
+  await withStore(ATHLETE_STORE, "readwrite", (store) => store.put(athlete))
+  return athlete
+}
+
+export async function getAthlete(id: string): Promise<Athlete | null> {
+  return (await withStore(ATHLETE_STORE, "readonly", (store) => store.get(id))) ?? null
+}
+
+export async function listAthletes(): Promise<Athlete[]> {
+  const athletes: Athlete[] = await withStore(ATHLETE_STORE, "readonly", (store) => store.getAll())
+  return athletes.sort((a, b) => a.name.localeCompare(b.name))
+}
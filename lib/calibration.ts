@@ -0,0 +1,58 @@
+import { type Keypoint, findKeypoint } from "./pose"
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export type CalibrationMethod = "athleteHeight" | "reference"
+
+export interface Calibration {
+  method: CalibrationMethod
+  cmPerPixel: number
+}
+
+// What the tracker should measure to produce a calibration
+export type CalibrationRequest =
+  | { method: "athleteHeight"; statureCm: number }
+  | { method: "reference"; distanceCm: number }
+
+// The nose sits at ~92% of standing height and the ankle joint at ~4%,
+// so the nose-to-ankle span covers ~88% of the athlete's stature.
+export const NOSE_TO_ANKLE_STATURE_RATIO = 0.88
+
+const MIN_KEYPOINT_SCORE = 0.3
+
+// Scale from the athlete's standing height and the nose-to-ankle keypoint span
+export function calibrateFromAthleteHeight(keypoints: Keypoint[], statureCm: number): Calibration | null {
+  const nose = findKeypoint(keypoints, "nose", MIN_KEYPOINT_SCORE)
+  const ankles = [
+    findKeypoint(keypoints, "left_ankle", MIN_KEYPOINT_SCORE),
+    findKeypoint(keypoints, "right_ankle", MIN_KEYPOINT_SCORE),
+  ].filter((kp): kp is Keypoint => !!kp)
+  if (!nose || ankles.length === 0 || statureCm <= 0) return null
+
+  const ankleY = ankles.reduce((sum, kp) => sum + kp.y, 0) / ankles.length
+  const spanPx = ankleY - nose.y
+  if (spanPx <= 0) return null
+
+  return {
+    method: "athleteHeight",
+    cmPerPixel: (statureCm * NOSE_TO_ANKLE_STATURE_RATIO) / spanPx,
+  }
+}
+
+// Scale from two marked points a known distance apart
+export function calibrateFromReference(a: Point, b: Point, distanceCm: number): Calibration | null {
+  const spanPx = Math.hypot(b.x - a.x, b.y - a.y)
+  if (spanPx <= 0 || distanceCm <= 0) return null
+
+  return {
+    method: "reference",
+    cmPerPixel: distanceCm / spanPx,
+  }
+}
+
+export function pixelsToCm(px: number, calibration: Calibration) {
+  return px * calibration.cmPerPixel
+}
@@ -0,0 +1,67 @@
+// Camera frame rate and resolution negotiation. Flight time is only as precise as
+// the frame interval, so the highest rate the device sustains is worth more than pixels.
+
+export type CapturePreference = "resolution" | "balanced" | "frameRate"
+
+export const CAPTURE_PREFERENCE_LABELS: Record<CapturePreference, string> = {
+  resolution: "Resolution (up to 1080p, 60 fps)",
+  balanced: "Balanced (720p, up to 120 fps)",
+  frameRate: "Frame rate (480p, up to 240 fps)",
+}
+
+interface CaptureProfile {
+  idealHeight: number // px
+  minHeight: number // px, lowest resolution still usable for pose estimation
+  maxFrameRate: number
+}
+
+const CAPTURE_PROFILES: Record<CapturePreference, CaptureProfile> = {
+  resolution: { idealHeight: 1080, minHeight: 720, maxFrameRate: 60 },
+  balanced: { idealHeight: 720, minHeight: 480, maxFrameRate: 120 },
+  frameRate: { idealHeight: 480, minHeight: 240, maxFrameRate: 240 },
+}
+
+const FRAME_RATES = [240, 120, 60, 30]
+
+export interface CaptureSettings {
+  width: number | null
+  height: number | null
+  frameRate: number | null
+}
+
+export function captureSettings(track: MediaStreamTrack): CaptureSettings {
+  const { width, height, frameRate } = track.getSettings()
+  return { width: width ?? null, height: height ?? null, frameRate: frameRate ?? null }
+}
+
+// e.g. "1280×720 · 60 fps"
+export function formatCaptureSettings({ width, height, frameRate }: CaptureSettings) {
+  const size = width && height ? `${width}×${height}` : "unknown size"
+  return frameRate ? `${size} · ${Math.round(frameRate)} fps` : size
+}
+
+// Ask the track for the highest standard frame rate it supports within the profile,
+// stepping down when the camera refuses a combination. Returns what was achieved.
+export async function negotiateCapture(track: MediaStreamTrack, preference: CapturePreference) {
+  const profile = CAPTURE_PROFILES[preference]
+  // getCapabilities is missing in Firefox and older Safari; those keep the ideal 30 fps
+  const maxSupported = typeof track.getCapabilities === "function" ? track.getCapabilities().frameRate?.max : undefined
+  if (maxSupported !== undefined) {
+    const height = { min: profile.minHeight, ideal: profile.idealHeight }
+    for (const rate of FRAME_RATES.filter((rate) => rate <= Math.min(profile.maxFrameRate, maxSupported))) {
+      try {
+        // 59.94 and similar NTSC rates count as their round number
+        await track.applyConstraints({ height, frameRate: { min: rate * 0.95, ideal: rate } })
+        return captureSettings(track)
+      } catch (err) {
+        if ((err as Error).name !== "OverconstrainedError") console.warn(`Could not capture at ${rate} fps:`, err)
+      }
+    }
+  }
+  try {
+    await track.applyConstraints({ height: { ideal: profile.idealHeight }, frameRate: { ideal: 30 } })
+  } catch (err) {
+    console.warn("Could not apply camera constraints:", err)
+  }
+  return captureSettings(track)
+}
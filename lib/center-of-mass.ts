@@ -0,0 +1,61 @@
+import { type Keypoint, type PoseFrame, findKeypoint } from "./pose"
+import type { Point } from "./calibration"
+
+// A body segment between two joints, with its share of body mass and where its centre of mass sits
+interface Segment {
+  proximal: string[] // keypoints averaged for the proximal end
+  distal: string[] // keypoints averaged for the distal end; same as proximal for point masses
+  massFraction: number
+  comFraction: number // distance from the proximal end as a fraction of segment length
+}
+
+// Segment parameters after de Leva (1996), adjusted to the joints MoveNet provides.
+// Mass fractions sum to 1.
+const SEGMENTS: Segment[] = [
+  { proximal: ["left_ear", "right_ear"], distal: ["left_ear", "right_ear"], massFraction: 0.0694, comFraction: 0 },
+  { proximal: ["left_shoulder", "right_shoulder"], distal: ["left_hip", "right_hip"], massFraction: 0.4346, comFraction: 0.5138 },
+  ...(["left", "right"] as const).flatMap((side) => [
+    { proximal: [`${side}_shoulder`], distal: [`${side}_elbow`], massFraction: 0.0271, comFraction: 0.5772 },
+    { proximal: [`${side}_elbow`], distal: [`${side}_wrist`], massFraction: 0.0162, comFraction: 0.4574 },
+    { proximal: [`${side}_wrist`], distal: [`${side}_wrist`], massFraction: 0.0061, comFraction: 0 },
+    { proximal: [`${side}_hip`], distal: [`${side}_knee`], massFraction: 0.1416, comFraction: 0.4095 },
+    { proximal: [`${side}_knee`], distal: [`${side}_ankle`], massFraction: 0.0433, comFraction: 0.4459 },
+    { proximal: [`${side}_ankle`], distal: [`${side}_ankle`], massFraction: 0.0137, comFraction: 0 },
+  ]),
+]
+
+const MIN_KEYPOINT_SCORE = 0.3
+// Below this share of body mass the estimate is too incomplete to trust
+const MIN_VISIBLE_MASS = 0.75
+
+const midpoint = (keypoints: Keypoint[], names: string[]): Point | null => {
+  const found = names.map((name) => findKeypoint(keypoints, name, MIN_KEYPOINT_SCORE))
+  if (found.some((kp) => !kp)) return null
+  return {
+    x: found.reduce((sum, kp) => sum + kp!.x, 0) / found.length,
+    y: found.reduce((sum, kp) => sum + kp!.y, 0) / found.length,
+  }
+}
+
+// Whole-body centre of mass from the visible segments, renormalised over their mass
+export function estimateCenterOfMass(keypoints: Keypoint[]): Point | null {
+  let mass = 0
+  let x = 0
+  let y = 0
+  for (const segment of SEGMENTS) {
+    const proximal = midpoint(keypoints, segment.proximal)
+    const distal = midpoint(keypoints, segment.distal)
+    if (!proximal || !distal) continue
+    mass += segment.massFraction
+    x += segment.massFraction * (proximal.x + segment.comFraction * (distal.x - proximal.x))
+    y += segment.massFraction * (proximal.y + segment.comFraction * (distal.y - proximal.y))
+  }
+  if (mass < MIN_VISIBLE_MASS) return null
+  return { x: x / mass, y: y / mass }
+}
+
+// Centre-of-mass height above the bottom of the frame, in px
+export function centerOfMassHeight(frame: PoseFrame) {
+  const com = estimateCenterOfMass(frame.keypoints)
+  return com ? frame.frameHeight - com.y : null
+}
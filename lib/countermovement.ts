@@ -0,0 +1,115 @@
+import { type Keypoint, findKeypoint } from "./pose"
+
+// Vertical hip position for one frame
+export interface HipSample {
+  timestamp: number // ms
+  height: number // px above the bottom of the frame
+}
+
+export interface CountermovementOptions {
+  maxDuration?: number // s before takeoff searched for the countermovement
+  minDepth?: number // px the hips must drop to count as a countermovement
+  onsetThreshold?: number // px below standing hip height that marks movement onset
+}
+
+// Phase boundaries of a countermovement jump; durations follow from these and the takeoff
+export interface CountermovementPhases {
+  onsetTime: number // ms, hips start to drop (unweighting begins)
+  brakingTime: number // ms, peak downward hip velocity (braking begins)
+  bottomTime: number // ms, lowest hip position (propulsion begins)
+  depthPx: number
+}
+
+const DEFAULT_OPTIONS: Required<CountermovementOptions> = {
+  maxDuration: 1.5,
+  minDepth: 10,
+  onsetThreshold: 4,
+}
+
+const MIN_HIP_SCORE = 0.3
+
+// Midpoint of the hips in height-above-bottom coordinates, when both are visible
+export function hipHeight(keypoints: Keypoint[], frameHeight: number) {
+  const leftHip = findKeypoint(keypoints, "left_hip", MIN_HIP_SCORE)
+  const rightHip = findKeypoint(keypoints, "right_hip", MIN_HIP_SCORE)
+  if (!leftHip || !rightHip) return null
+  return frameHeight - (leftHip.y + rightHip.y) / 2
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+// Split the hip trajectory before takeoff into unweighting, braking and propulsion
+export function segmentCountermovement(
+  samples: HipSample[],
+  takeoffTime: number,
+  options: CountermovementOptions = {}
+): CountermovementPhases | null {
+  const config = { ...DEFAULT_OPTIONS, ...options }
+  const windowStart = takeoffTime - config.maxDuration * 1000
+  const before = samples.filter((sample) => sample.timestamp < windowStart)
+  const window = samples.filter((sample) => sample.timestamp >= windowStart && sample.timestamp <= takeoffTime)
+  if (window.length < 3) return null
+
+  // Light smoothing so the differentiated velocity is usable
+  const smoothed = window.map((sample, index) => {
+    const neighbours = window.slice(Math.max(0, index - 1), index + 2)
+    return { timestamp: sample.timestamp, height: neighbours.reduce((sum, n) => sum + n.height, 0) / neighbours.length }
+  })
+
+  const standing = before.length > 0 ? median(before.map((sample) => sample.height)) : smoothed[0].height
+  let bottomIndex = 0
+  smoothed.forEach((sample, index) => {
+    if (sample.height < smoothed[bottomIndex].height) bottomIndex = index
+  })
+  const depthPx = standing - smoothed[bottomIndex].height
+  if (depthPx < config.minDepth || bottomIndex === 0) return null
+
+  let onsetIndex = bottomIndex
+  while (onsetIndex > 0 && smoothed[onsetIndex - 1].height < standing - config.onsetThreshold) onsetIndex--
+  onsetIndex = Math.max(0, onsetIndex - 1)
+
+  // Fastest descent between onset and the bottom
+  let brakingIndex = onsetIndex
+  let minVelocity = 0
+  for (let index = onsetIndex + 1; index <= bottomIndex; index++) {
+    const dt = smoothed[index].timestamp - smoothed[index - 1].timestamp
+    if (dt <= 0) continue
+    const velocity = (smoothed[index].height - smoothed[index - 1].height) / dt
+    if (velocity < minVelocity) {
+      minVelocity = velocity
+      brakingIndex = index
+    }
+  }
+
+  return {
+    onsetTime: smoothed[onsetIndex].timestamp,
+    brakingTime: smoothed[brakingIndex].timestamp,
+    bottomTime: smoothed[bottomIndex].timestamp,
+    depthPx,
+  }
+}
+
+export interface PhaseDurations {
+  unweighting: number // s
+  braking: number // s
+  propulsion: number // s
+  timeToTakeoff: number // s
+}
+
+export function phaseDurations(phases: CountermovementPhases, takeoffTime: number): PhaseDurations {
+  return {
+    unweighting: (phases.brakingTime - phases.onsetTime) / 1000,
+    braking: (phases.bottomTime - phases.brakingTime) / 1000,
+    propulsion: (takeoffTime - phases.bottomTime) / 1000,
+    timeToTakeoff: (takeoffTime - phases.onsetTime) / 1000,
+  }
+}
+
+// Modified RSI: jump height (m) ÷ time to takeoff (s)
+export function modifiedRsi(heightCm: number, phases: CountermovementPhases, takeoffTime: number) {
+  const { timeToTakeoff } = phaseDurations(phases, takeoffTime)
+  return timeToTakeoff > 0 ? heightCm / 100 / timeToTakeoff : null
+}
@@ -0,0 +1,47 @@
+const DB_NAME = "verticai"
+const DB_VERSION = 2
+
+export const SESSION_STORE = "sessions"
+export const ATHLETE_STORE = "athletes"
+
+type StoreName = typeof SESSION_STORE | typeof ATHLETE_STORE
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      // Each step upgrades the database by one version
+      if (event.oldVersion < 1) {
+        const sessions = db.createObjectStore(SESSION_STORE, { keyPath: "id" })
+        sessions.createIndex("createdAt", "createdAt")
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(ATHLETE_STORE, { keyPath: "id" })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  try {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName))
+    return await new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+export function createRecordId() {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
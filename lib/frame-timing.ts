@@ -0,0 +1,55 @@
+// Frame timestamps from requestVideoFrameCallback, with counts of frames the analysis missed or saw twice
+
+export interface FrameTimingStats {
+  analyzed: number
+  dropped: number // presented by the video but never analyzed
+  duplicated: number // callbacks that delivered an already-analyzed frame
+  frameInterval: number | null // ms, mean gap between analyzed frames
+}
+
+export interface FrameClock {
+  // Timestamp in ms of a newly presented frame, or null when it repeats the last one
+  next: (metadata: VideoFrameCallbackMetadata) => number | null
+  getStats: () => FrameTimingStats
+  reset: () => void
+}
+
+export function createFrameClock(): FrameClock {
+  let useCaptureTime: boolean | null = null // decided on the first frame so timestamps never mix clocks
+  let first: number | null = null
+  let last: number | null = null
+  let lastPresented: number | null = null
+  let stats: FrameTimingStats = { analyzed: 0, dropped: 0, duplicated: 0, frameInterval: null }
+
+  return {
+    next: (metadata) => {
+      // Camera frames carry their capture time; files and older browsers only have the media time
+      useCaptureTime ??= metadata.captureTime !== undefined
+      const timestamp = useCaptureTime && metadata.captureTime !== undefined ? metadata.captureTime : metadata.mediaTime * 1000
+      if (timestamp === last) {
+        stats = { ...stats, duplicated: stats.duplicated + 1 }
+        return null
+      }
+      const dropped = lastPresented !== null ? Math.max(0, metadata.presentedFrames - lastPresented - 1) : 0
+      const analyzed = stats.analyzed + 1
+      first ??= timestamp
+      stats = {
+        analyzed,
+        dropped: stats.dropped + dropped,
+        duplicated: stats.duplicated,
+        frameInterval: analyzed > 1 ? (timestamp - first) / (analyzed - 1) : null,
+      }
+      last = timestamp
+      lastPresented = metadata.presentedFrames
+      return timestamp
+    },
+    getStats: () => stats,
+    reset: () => {
+      useCaptureTime = null
+      first = null
+      last = null
+      lastPresented = null
+      stats = { analyzed: 0, dropped: 0, duplicated: 0, frameInterval: null }
+    },
+  }
+}
@@ -0,0 +1,31 @@
+import type { JumpResult } from "./jump-detector"
+import { formatHeight } from "./jump-physics"
+
+// How a jump's height is reported
+export type HeightMethod = "flightTime" | "ankle" | "centerOfMass"
+
+export const HEIGHT_METHOD_LABELS: Record<HeightMethod, string> = {
+  flightTime: "Flight time",
+  ankle: "Ankle displacement",
+  centerOfMass: "Centre of mass",
+}
+
+// Jump height in cm by the chosen method; displacement methods need a calibration
+export function jumpHeightCm(jump: JumpResult, method: HeightMethod) {
+  switch (method) {
+    case "flightTime":
+      return jump.flightTimeHeightCm
+    case "ankle":
+      return jump.displacementCm
+    case "centerOfMass":
+      return jump.comDisplacementCm
+  }
+}
+
+// Height by the chosen method for labels; uncalibrated displacements are shown in pixels
+export function formatJumpHeight(jump: JumpResult, method: HeightMethod) {
+  const cm = jumpHeightCm(jump, method)
+  if (cm !== null) return formatHeight(cm)
+  const px = method === "ankle" ? jump.displacementPx : jump.comDisplacementPx
+  return px !== null ? `${px.toFixed(1)} px` : "n/a"
+}
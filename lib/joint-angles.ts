@@ -0,0 +1,68 @@
+import { type Keypoint, findKeypoint } from "./pose"
+import type { Point } from "./calibration"
+
+const MIN_KEYPOINT_SCORE = 0.3
+
+export type Side = "left" | "right"
+
+// Angle at the vertex between the two limbs, in degrees (180 = straight)
+export function jointAngle(a: Point, vertex: Point, b: Point) {
+  const first = Math.atan2(a.y - vertex.y, a.x - vertex.x)
+  const second = Math.atan2(b.y - vertex.y, b.x - vertex.x)
+  let angle = Math.abs(((first - second) * 180) / Math.PI)
+  if (angle > 180) angle = 360 - angle
+  return angle
+}
+
+// Hip-knee-ankle angle of one leg
+export function kneeAngle(keypoints: Keypoint[], side: Side) {
+  const hip = findKeypoint(keypoints, `${side}_hip`, MIN_KEYPOINT_SCORE)
+  const knee = findKeypoint(keypoints, `${side}_knee`, MIN_KEYPOINT_SCORE)
+  const ankle = findKeypoint(keypoints, `${side}_ankle`, MIN_KEYPOINT_SCORE)
+  return hip && knee && ankle ? jointAngle(hip, knee, ankle) : null
+}
+
+// Mean knee angle over the visible legs
+export function meanKneeAngle(keypoints: Keypoint[]) {
+  const angles = [kneeAngle(keypoints, "left"), kneeAngle(keypoints, "right")].filter(
+    (angle): angle is number => angle !== null
+  )
+  return angles.length > 0 ? angles.reduce((sum, angle) => sum + angle, 0) / angles.length : null
+}
+
+// Sagittal-plane angles of the leg facing the camera, degrees
+export interface JointAngles {
+  hip: number | null // shoulder-hip-knee
+  knee: number | null // hip-knee-ankle
+  ankle: number | null // knee-ankle-toe, or the shank against the ground when no toe keypoint exists
+}
+
+// The leg with the more confident keypoints is the one nearer the camera in a side view
+const nearSide = (keypoints: Keypoint[]): Side => {
+  const score = (side: Side) =>
+    ["hip", "knee", "ankle"].reduce((sum, joint) => sum + (findKeypoint(keypoints, `${side}_${joint}`)?.score ?? 0), 0)
+  return score("left") >= score("right") ? "left" : "right"
+}
+
+export function sagittalAngles(keypoints: Keypoint[]): JointAngles {
+  const side = nearSide(keypoints)
+  const point = (joint: string) => findKeypoint(keypoints, `${side}_${joint}`, MIN_KEYPOINT_SCORE)
+  const shoulder = point("shoulder")
+  const hip = point("hip")
+  const knee = point("knee")
+  const ankle = point("ankle")
+  const toe = point("foot_index")
+
+  let ankleAngle: number | null = null
+  if (knee && ankle) {
+    // Without a toe, measure against a ground point on the side the knee leans towards
+    const ground = toe ?? { x: ankle.x + (knee.x >= ankle.x ? 100 : -100), y: ankle.y }
+    ankleAngle = jointAngle(knee, ankle, ground)
+  }
+
+  return {
+    hip: shoulder && hip && knee ? jointAngle(shoulder, hip, knee) : null,
+    knee: hip && knee && ankle ? jointAngle(hip, knee, ankle) : null,
+    ankle: ankleAngle,
+  }
+}
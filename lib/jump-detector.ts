@@ -0,0 +1,469 @@
+import { type Keypoint, type PoseFrame, findKeypoint } from "./pose"
+import { type Calibration, pixelsToCm } from "./calibration"
+import { heightCmFromFlightTime } from "./jump-physics"
+import { type CountermovementPhases, type HipSample, hipHeight, segmentCountermovement } from "./countermovement"
+import { centerOfMassHeight } from "./center-of-mass"
+import { type JointAngles, type Side, meanKneeAngle, sagittalAngles } from "./joint-angles"
+import { type LandingMechanics, landingStiffness, measureLandingPosture } from "./landing-mechanics"
+import { REACH_KEYPOINT_SCORE } from "./reach"
+
+export interface JumpDetectorOptions {
+  jumpThreshold?: number // px above ground level that counts as airborne
+  minFlightTime?: number // s, shorter flights are ignored
+  minAnkleScore?: number // combined ankle confidence below which feet are treated as lost
+  groundTolerance?: number // px, max drop in ground level accepted per frame
+  historySize?: number // frames of foot height kept for peak search
+  peakWindow?: number // frames searched for the peak on landing
+  maxContactTime?: number // s, longer ground contacts before a takeoff are not timed
+  hipHistoryTime?: number // ms of hip positions kept for countermovement segmentation
+  landingWindow?: number // ms after landing watched for the trailing foot and knee flexion before reporting a jump
+}
+
+export interface JumpResult {
+  jumpNumber: number
+  takeoffTime: number // ms
+  landingTime: number // ms
+  flightTime: number // s
+  flightTimeHeightCm: number
+  displacementPx: number
+  displacementCm: number | null
+  comDisplacementPx: number | null // peak centre of mass above standing, when the body was visible
+  comDisplacementCm: number | null
+  contactTime: number | null // s on the ground since the previous landing or a drop from a box
+  countermovement: CountermovementPhases | null
+  kneeAngles: { takeoff: number | null; landing: number | null } // degrees, 180 = straight
+  stanceLeg: Side | "both" | null // leg(s) on the ground before takeoff
+  asymmetry: BilateralAsymmetry | null // two-footed jumps only
+  landing: LandingMechanics | null // front-view knee alignment after touchdown
+  jointAngles: { takeoff: JointAngles; peak: JointAngles | null; landing: JointAngles } | null
+  reachPx: number | null // highest wrist during flight above standing ankle level
+  reachCm: number | null
+  timingUncertainty: number | null // ± s on flight time, from the frame gaps around takeoff and landing
+  manual?: boolean // takeoff/landing marked by hand during review
+}
+
+// Left-versus-right differences of one two-footed jump; positive means the left foot was later or higher
+export interface BilateralAsymmetry {
+  takeoffOffset: number // ms
+  landingOffset: number | null // ms, null if the trailing foot was not seen landing
+  peakDifferencePx: number
+  peakDifferenceCm: number | null
+}
+
+export interface JumpStats {
+  jumpCount: number
+  lastJump: JumpResult | null
+  maxHeight: number // px
+  maxHeightCm: number // flight-time height
+  bestFlightTime: number
+  bestFlightJump: number
+  bestMaxHeight: number // px
+  bestMaxHeightCm: number // flight-time height of the best displacement jump
+  bestMaxJump: number
+}
+
+// Per-frame output of the detector
+export interface FrameSample {
+  timestamp: number
+  leftFootHeight: number
+  rightFootHeight: number
+  footHeight: number
+  groundLevel: number | null
+  inAir: boolean
+  jointAngles: JointAngles
+}
+
+export interface JumpDetectorEvents {
+  takeoff: { timestamp: number; groundLevel: number }
+  landing: { timestamp: number; flightTime: number }
+  jump: JumpResult
+  groundRecalibrated: { groundLevel: number; previousGroundLevel: number | null }
+}
+
+export type JumpDetectorListener<K extends keyof JumpDetectorEvents> = (event: JumpDetectorEvents[K]) => void
+
+export interface JumpDetector {
+  processFrame: (frame: PoseFrame) => FrameSample | null
+  on: <K extends keyof JumpDetectorEvents>(type: K, listener: JumpDetectorListener<K>) => () => void
+  setCalibration: (calibration: Calibration | null) => void
+  getStats: () => JumpStats
+  // Reports a jump still waiting for its trailing foot, e.g. when the input ends
+  flush: () => void
+  // Clears ground level and session stats; best stats survive unless keepBest is false
+  reset: (options?: { keepBest?: boolean }) => void
+}
+
+const DEFAULT_OPTIONS: Required<JumpDetectorOptions> = {
+  jumpThreshold: 20,
+  minFlightTime: 0.1,
+  minAnkleScore: 0.6,
+  groundTolerance: 100,
+  historySize: 30,
+  peakWindow: 15,
+  maxContactTime: 1,
+  hipHistoryTime: 3000,
+  landingWindow: 400,
+}
+
+// ms before takeoff treated as standing when no countermovement was found
+const STANDING_MARGIN = 500
+
+// px the hips must climb back above their lowest point before maximum flexion counts as passed
+const FLEXION_RISE = 5
+
+// Highest centre of mass since takeoff relative to the median standing height before standingUntil
+function centerOfMassDisplacement(history: HipSample[], standingUntil: number, takeoffTime: number) {
+  const standing = history.filter((sample) => sample.timestamp < standingUntil).map((sample) => sample.height)
+  const flight = history.filter((sample) => sample.timestamp >= takeoffTime).map((sample) => sample.height)
+  if (standing.length === 0 || flight.length === 0) return null
+  standing.sort((a, b) => a - b)
+  return Math.max(...flight) - standing[Math.floor(standing.length / 2)]
+}
+
+// A foot held clearly above the other on the ground means the athlete stands on the lower leg
+function stanceLeg(differences: number[], liftThreshold: number): Side | "both" | null {
+  if (differences.length === 0) return null
+  const mean = differences.reduce((sum, difference) => sum + difference, 0) / differences.length
+  if (mean > liftThreshold) return "right"
+  if (mean < -liftThreshold) return "left"
+  return "both"
+}
+
+// Highest visible wrist above the bottom of the frame
+function highestWrist(frame: PoseFrame) {
+  const wrists = [
+    findKeypoint(frame.keypoints, "left_wrist", REACH_KEYPOINT_SCORE),
+    findKeypoint(frame.keypoints, "right_wrist", REACH_KEYPOINT_SCORE),
+  ]
+  const heights = wrists.filter((kp) => kp !== undefined).map((kp) => frame.frameHeight - kp.y)
+  return heights.length > 0 ? Math.max(...heights) : null
+}
+
+// Lower ankle above the bottom of the frame; reach is measured from here like the standing reach
+function ankleHeight(frame: PoseFrame) {
+  const ankles = [
+    findKeypoint(frame.keypoints, "left_ankle", REACH_KEYPOINT_SCORE),
+    findKeypoint(frame.keypoints, "right_ankle", REACH_KEYPOINT_SCORE),
+  ]
+  const heights = ankles.filter((kp) => kp !== undefined).map((kp) => frame.frameHeight - kp.y)
+  return heights.length > 0 ? Math.min(...heights) : null
+}
+
+// Lowest of the heel and toe when the model tracks them (BlazePose), otherwise the ankle.
+// Keeps the ankle's score, which gates tracking for every model.
+function footPoint(keypoints: Keypoint[], side: Side) {
+  const ankle = findKeypoint(keypoints, `${side}_ankle`)
+  if (!ankle) return undefined
+  const contacts = [findKeypoint(keypoints, `${side}_heel`, 0.3), findKeypoint(keypoints, `${side}_foot_index`, 0.3)]
+  const ys = contacts.filter((kp) => kp !== undefined).map((kp) => kp.y)
+  return ys.length > 0 ? { ...ankle, y: Math.max(...ys) } : ankle
+}
+
+// Threshold crossings and peak height of one foot
+interface FootTrack {
+  up: boolean
+  takeoffTime: number | null
+  landingTime: number | null
+  peak: number
+}
+
+const initialFootTrack = (): FootTrack => ({ up: false, takeoffTime: null, landingTime: null, peak: 0 })
+
+const initialStats = (): JumpStats => ({
+  jumpCount: 0,
+  lastJump: null,
+  maxHeight: 0,
+  maxHeightCm: 0,
+  bestFlightTime: 0,
+  bestFlightJump: 0,
+  bestMaxHeight: 0,
+  bestMaxHeightCm: 0,
+  bestMaxJump: 0,
+})
+
+export function createJumpDetector(options: JumpDetectorOptions = {}): JumpDetector {
+  const config = { ...DEFAULT_OPTIONS, ...options }
+  const listeners: { [K in keyof JumpDetectorEvents]: Set<JumpDetectorListener<K>> } = {
+    takeoff: new Set(),
+    landing: new Set(),
+    jump: new Set(),
+    groundRecalibrated: new Set(),
+  }
+
+  let calibration: Calibration | null = null
+  let groundLevel: number | null = null
+  let inAir = false
+  let jumpStartTime: number | null = null
+  let lastFrameTime: number | null = null // last frame with both feet found
+  let takeoffGap: number | null = null // ms between the takeoff frame and the frame before it
+  let takeoffKneeAngle: number | null = null
+  let takeoffAngles: JointAngles | null = null
+  let peak: { height: number; angles: JointAngles } | null = null // highest foot position this flight
+  let peakWristHeight: number | null = null // px above the bottom of the frame, this flight
+  let standingAnkleHeight: number | null = null // px above the bottom of the frame, last frame on the ground
+  let takeoffStanceLeg: Side | "both" | null = null
+  let stanceHistory: number[] = [] // left minus right foot height while on the ground
+  let contactStartTime: number | null = null
+  let dropStartLevel: number | null = null
+  let footHistory: number[] = []
+  let hipHistory: HipSample[] = []
+  let comHistory: HipSample[] = [] // centre-of-mass heights, same window as the hips
+  let feet: Record<Side, FootTrack> = { left: initialFootTrack(), right: initialFootTrack() }
+  let pendingJump: JumpResult | null = null // landed, waiting for the trailing foot and max flexion
+  let lowestLandingHip: { timestamp: number; height: number; keypoints: PoseFrame["keypoints"] } | null = null
+  let stats = initialStats()
+
+  const emit = <K extends keyof JumpDetectorEvents>(type: K, event: JumpDetectorEvents[K]) => {
+    for (const listener of listeners[type]) listener(event)
+  }
+
+  const recordJump = (result: JumpResult) => {
+    const next = { ...stats, jumpCount: result.jumpNumber, lastJump: result }
+    next.maxHeight = Math.max(stats.maxHeight, result.displacementPx)
+    next.maxHeightCm = Math.max(stats.maxHeightCm, result.flightTimeHeightCm)
+    if (result.flightTime > stats.bestFlightTime) {
+      next.bestFlightTime = result.flightTime
+      next.bestFlightJump = result.jumpNumber
+    }
+    if (result.displacementPx > stats.bestMaxHeight) {
+      next.bestMaxHeight = result.displacementPx
+      next.bestMaxHeightCm = result.flightTimeHeightCm
+      next.bestMaxJump = result.jumpNumber
+    }
+    stats = next
+  }
+
+  const bilateralAsymmetry = (jump: JumpResult): BilateralAsymmetry | null => {
+    const { left, right } = feet
+    if (jump.stanceLeg !== "both" || left.takeoffTime === null || right.takeoffTime === null) return null
+    const landed = (foot: FootTrack) => foot.landingTime !== null && foot.landingTime >= jump.takeoffTime
+    const peakDifferencePx = left.peak - right.peak
+    return {
+      takeoffOffset: left.takeoffTime - right.takeoffTime,
+      landingOffset: landed(left) && landed(right) ? left.landingTime! - right.landingTime! : null,
+      peakDifferencePx,
+      peakDifferenceCm: calibration ? pixelsToCm(peakDifferencePx, calibration) : null,
+    }
+  }
+
+  // Report the pending jump once both feet are down and the hips rise again, or the landing window has passed
+  const settlePendingJump = (timestamp: number, force = false) => {
+    if (!pendingJump) return
+    const latestHip = hipHistory[hipHistory.length - 1]
+    const flexionPassed =
+      !feet.left.up &&
+      !feet.right.up &&
+      lowestLandingHip !== null &&
+      latestHip !== undefined &&
+      latestHip.height - lowestLandingHip.height > FLEXION_RISE
+    if (!force && !flexionPassed && timestamp - pendingJump.landingTime < config.landingWindow) return
+    const result: JumpResult = {
+      ...pendingJump,
+      asymmetry: bilateralAsymmetry(pendingJump),
+      landing: pendingJump.landing && {
+        ...pendingJump.landing,
+        maxFlexion: lowestLandingHip ? measureLandingPosture(lowestLandingHip.keypoints) : null,
+        stiffness: lowestLandingHip
+          ? landingStiffness(
+              pendingJump.kneeAngles.landing,
+              meanKneeAngle(lowestLandingHip.keypoints),
+              (lowestLandingHip.timestamp - pendingJump.landingTime) / 1000
+            )
+          : null,
+      },
+    }
+    pendingJump = null
+    lowestLandingHip = null
+    recordJump(result)
+    emit("jump", result)
+  }
+
+  const trackFoot = (foot: FootTrack, height: number, ground: number, timestamp: number) => {
+    if (height === 0) return // confidence too low this frame
+    const up = height > ground + config.jumpThreshold
+    if (up && !foot.up) {
+      foot.takeoffTime = timestamp
+      foot.peak = height - ground
+    } else if (!up && foot.up) {
+      foot.landingTime = timestamp
+    }
+    if (up) foot.peak = Math.max(foot.peak, height - ground)
+    foot.up = up
+  }
+
+  const processFrame = (frame: PoseFrame): FrameSample | null => {
+    const leftFoot = footPoint(frame.keypoints, "left")
+    const rightFoot = footPoint(frame.keypoints, "right")
+    if (!leftFoot || !rightFoot) return null
+
+    let leftFootHeight, rightFootHeight
+    if (leftFoot.score && rightFoot.score && leftFoot.score + rightFoot.score < config.minAnkleScore) {
+      leftFootHeight = 0
+      rightFootHeight = 0
+    } else {
+      leftFootHeight = frame.frameHeight - leftFoot.y
+      rightFootHeight = frame.frameHeight - rightFoot.y
+    }
+    const footHeight = Math.min(leftFootHeight, rightFootHeight)
+
+    footHistory.push(footHeight)
+    if (footHistory.length > config.historySize) footHistory.shift()
+
+    const hip = hipHeight(frame.keypoints, frame.frameHeight)
+    if (hip !== null) hipHistory.push({ timestamp: frame.timestamp, height: hip })
+    // Lowest hips after touchdown mark maximum knee flexion
+    if (pendingJump && hip !== null && (!lowestLandingHip || hip < lowestLandingHip.height)) {
+      lowestLandingHip = { timestamp: frame.timestamp, height: hip, keypoints: frame.keypoints }
+    }
+    while (hipHistory.length > 0 && hipHistory[0].timestamp < frame.timestamp - config.hipHistoryTime) hipHistory.shift()
+    const com = centerOfMassHeight(frame)
+    if (com !== null) comHistory.push({ timestamp: frame.timestamp, height: com })
+    while (comHistory.length > 0 && comHistory[0].timestamp < frame.timestamp - config.hipHistoryTime) comHistory.shift()
+
+    // Ground level follows the lowest plausible foot position
+    if (groundLevel === null || (footHeight < groundLevel && footHeight > groundLevel - config.groundTolerance)) {
+      const previousGroundLevel = groundLevel
+      groundLevel = footHeight
+      emit("groundRecalibrated", { groundLevel, previousGroundLevel })
+      // Stepping off a box drags the ground down; contact starts once the feet stop descending
+      if (previousGroundLevel !== null) {
+        dropStartLevel ??= previousGroundLevel
+        if (dropStartLevel - groundLevel > config.jumpThreshold) contactStartTime = frame.timestamp
+      }
+    } else {
+      dropStartLevel = null
+    }
+
+    trackFoot(feet.left, leftFootHeight, groundLevel, frame.timestamp)
+    trackFoot(feet.right, rightFootHeight, groundLevel, frame.timestamp)
+
+    const jointAngles = sagittalAngles(frame.keypoints)
+    const isInAir = footHeight > groundLevel + config.jumpThreshold
+    if (!isInAir && leftFootHeight !== 0 && rightFootHeight !== 0) {
+      stanceHistory.push(leftFootHeight - rightFootHeight)
+      if (stanceHistory.length > config.peakWindow) stanceHistory.shift()
+    }
+    if (isInAir && !inAir) {
+      settlePendingJump(frame.timestamp, true)
+      inAir = true
+      jumpStartTime = frame.timestamp
+      takeoffGap = lastFrameTime !== null ? frame.timestamp - lastFrameTime : null
+      takeoffKneeAngle = meanKneeAngle(frame.keypoints)
+      takeoffAngles = jointAngles
+      peak = null
+      peakWristHeight = null
+      takeoffStanceLeg = stanceLeg(stanceHistory, config.jumpThreshold)
+      if (contactStartTime !== null && (frame.timestamp - contactStartTime) / 1000 > config.maxContactTime) {
+        contactStartTime = null
+      }
+      emit("takeoff", { timestamp: frame.timestamp, groundLevel })
+    } else if (!isInAir && inAir) {
+      inAir = false
+      if (jumpStartTime !== null) {
+        const flightTime = (frame.timestamp - jumpStartTime) / 1000
+        emit("landing", { timestamp: frame.timestamp, flightTime })
+
+        if (flightTime > config.minFlightTime) {
+          const displacementPx = Math.max(...footHistory.slice(-config.peakWindow)) - groundLevel
+          const countermovement = segmentCountermovement(hipHistory, jumpStartTime)
+          const comDisplacementPx = centerOfMassDisplacement(
+            comHistory,
+            countermovement?.onsetTime ?? jumpStartTime - STANDING_MARGIN,
+            jumpStartTime
+          )
+          // Ground level may be the heels and toes (BlazePose); reach stays relative to the ankles
+          const reachPx = peakWristHeight !== null ? peakWristHeight - (standingAnkleHeight ?? groundLevel) : null
+          const result: JumpResult = {
+            jumpNumber: stats.jumpCount + 1,
+            takeoffTime: jumpStartTime,
+            landingTime: frame.timestamp,
+            flightTime,
+            flightTimeHeightCm: heightCmFromFlightTime(flightTime),
+            displacementPx,
+            displacementCm: calibration ? pixelsToCm(displacementPx, calibration) : null,
+            comDisplacementPx,
+            comDisplacementCm: calibration && comDisplacementPx !== null ? pixelsToCm(comDisplacementPx, calibration) : null,
+            contactTime: contactStartTime !== null ? (jumpStartTime - contactStartTime) / 1000 : null,
+            countermovement,
+            kneeAngles: { takeoff: takeoffKneeAngle, landing: meanKneeAngle(frame.keypoints) },
+            stanceLeg: takeoffStanceLeg,
+            asymmetry: null,
+            landing: { initialContact: measureLandingPosture(frame.keypoints), maxFlexion: null, stiffness: null },
+            jointAngles: takeoffAngles && { takeoff: takeoffAngles, peak: peak?.angles ?? null, landing: jointAngles },
+            reachPx,
+            reachCm: calibration && reachPx !== null ? pixelsToCm(reachPx, calibration) : null,
+            // Takeoff and landing each happened somewhere between their frame and the one before
+            timingUncertainty:
+              takeoffGap !== null && lastFrameTime !== null
+                ? (takeoffGap + frame.timestamp - lastFrameTime) / 2000
+                : null,
+          }
+          pendingJump = result
+          contactStartTime = frame.timestamp
+          // The landing squat must not be mistaken for the next countermovement
+          hipHistory = []
+          comHistory = []
+          stanceHistory = []
+        }
+      }
+      jumpStartTime = null
+    }
+    if (inAir && (!peak || footHeight > peak.height)) peak = { height: footHeight, angles: jointAngles }
+    if (!inAir) standingAnkleHeight = ankleHeight(frame) ?? standingAnkleHeight
+    if (inAir) {
+      const wrist = highestWrist(frame)
+      if (wrist !== null && (peakWristHeight === null || wrist > peakWristHeight)) peakWristHeight = wrist
+    }
+    settlePendingJump(frame.timestamp)
+    lastFrameTime = frame.timestamp
+
+    return { timestamp: frame.timestamp, leftFootHeight, rightFootHeight, footHeight, groundLevel, inAir, jointAngles }
+  }
+
+  return {
+    processFrame,
+    on: (type, listener) => {
+      listeners[type].add(listener)
+      return () => {
+        listeners[type].delete(listener)
+      }
+    },
+    setCalibration: (next) => {
+      calibration = next
+    },
+    getStats: () => stats,
+    flush: () => settlePendingJump(0, true),
+    reset: ({ keepBest = true } = {}) => {
+      groundLevel = null
+      inAir = false
+      jumpStartTime = null
+      lastFrameTime = null
+      takeoffGap = null
+      takeoffKneeAngle = null
+      takeoffAngles = null
+      peak = null
+      peakWristHeight = null
+      standingAnkleHeight = null
+      takeoffStanceLeg = null
+      stanceHistory = []
+      feet = { left: initialFootTrack(), right: initialFootTrack() }
+      pendingJump = null
+      lowestLandingHip = null
+      contactStartTime = null
+      dropStartLevel = null
+      footHistory = []
+      hipHistory = []
+      comHistory = []
+      stats = keepBest
+        ? {
+            ...initialStats(),
+            bestFlightTime: stats.bestFlightTime,
+            bestFlightJump: stats.bestFlightJump,
+            bestMaxHeight: stats.bestMaxHeight,
+            bestMaxHeightCm: stats.bestMaxHeightCm,
+            bestMaxJump: stats.bestMaxJump,
+          }
+        : initialStats()
+    },
+  }
+}
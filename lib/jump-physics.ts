@@ -0,0 +1,68 @@
+// Standard gravity (m/s²)
+export const GRAVITY = 9.80665
+
+const CM_PER_INCH = 2.54
+
+// Jump height in metres from flight time in seconds (h = g·t²/8)
+export function heightFromFlightTime(flightTime: number) {
+  if (flightTime <= 0) return 0
+  return (GRAVITY * flightTime * flightTime) / 8
+}
+
+// Jump height in centimetres from flight time in seconds
+export function heightCmFromFlightTime(flightTime: number) {
+  return heightFromFlightTime(flightTime) * 100
+}
+
+// ± cm of flight-time height for a ± s flight-time uncertainty (dh = g·t·dt/4)
+export function flightTimeHeightUncertaintyCm(flightTime: number, uncertainty: number) {
+  return ((GRAVITY * flightTime * uncertainty) / 4) * 100
+}
+
+export function cmToInches(cm: number) {
+  return cm / CM_PER_INCH
+}
+
+// Format a height as "xx.x cm / yy.y in"
+export function formatHeight(cm: number) {
+  return `${cm.toFixed(1)} cm / ${cmToInches(cm).toFixed(1)} in`
+}
+
+// Takeoff velocity in m/s from flight time in seconds (v = g·t/2)
+export function takeoffVelocity(flightTime: number) {
+  if (flightTime <= 0) return 0
+  return (GRAVITY * flightTime) / 2
+}
+
+// Peak power in watts from jump height (cm) and body mass (kg), Sayers et al. 1999
+export function sayersPeakPower(heightCm: number, bodyMassKg: number) {
+  return 60.7 * heightCm + 45.3 * bodyMassKg - 2055
+}
+
+// Peak power in watts from jump height (cm) and body mass (kg), Harman et al. 1991
+export function harmanPeakPower(heightCm: number, bodyMassKg: number) {
+  return 61.9 * heightCm + 36.0 * bodyMassKg + 1822
+}
+
+export interface JumpPower {
+  takeoffVelocity: number // m/s
+  sayersPeakPower: number // W
+  harmanPeakPower: number // W
+  relativePeakPower: number // W/kg, from the Sayers estimate
+}
+
+// Power estimates for a jump, using its flight-time height
+export function estimateJumpPower(jump: { flightTime: number; flightTimeHeightCm: number }, bodyMassKg: number): JumpPower {
+  const sayers = sayersPeakPower(jump.flightTimeHeightCm, bodyMassKg)
+  return {
+    takeoffVelocity: takeoffVelocity(jump.flightTime),
+    sayersPeakPower: sayers,
+    harmanPeakPower: harmanPeakPower(jump.flightTimeHeightCm, bodyMassKg),
+    relativePeakPower: bodyMassKg > 0 ? sayers / bodyMassKg : 0,
+  }
+}
+
+// Format a power estimate as "xxxx W (yy.y W/kg)"
+export function formatPower(power: JumpPower) {
+  return `${Math.round(power.sayersPeakPower)} W (${power.relativePeakPower.toFixed(1)} W/kg)`
+}
@@ -0,0 +1,64 @@
+import type { JumpResult } from "./jump-detector"
+import { heightCmFromFlightTime } from "./jump-physics"
+
+// Hand-marked frame times (ms) replace the detected ones and flight-time height is recomputed
+export function applyManualTiming(
+  jump: JumpResult,
+  timing: { takeoffTime?: number; landingTime?: number }
+): JumpResult | null {
+  const takeoffTime = timing.takeoffTime ?? jump.takeoffTime
+  const landingTime = timing.landingTime ?? jump.landingTime
+  if (landingTime <= takeoffTime) return null
+
+  const flightTime = (landingTime - takeoffTime) / 1000
+  return {
+    ...jump,
+    takeoffTime,
+    landingTime,
+    flightTime,
+    flightTimeHeightCm: heightCmFromFlightTime(flightTime),
+    // Contact ends at takeoff, so it moves with it
+    contactTime: jump.contactTime !== null ? jump.contactTime + (takeoffTime - jump.takeoffTime) / 1000 : null,
+    // The detector's frame gaps no longer bound hand-marked times
+    timingUncertainty: null,
+    manual: true,
+  }
+}
+
+// A jump the detector missed, marked entirely by hand
+export function createManualJump(takeoffTime: number, landingTime: number): JumpResult | null {
+  return applyManualTiming(
+    {
+      jumpNumber: 0,
+      takeoffTime,
+      landingTime,
+      flightTime: 0,
+      flightTimeHeightCm: 0,
+      displacementPx: 0,
+      displacementCm: null,
+      comDisplacementPx: null,
+      comDisplacementCm: null,
+      contactTime: null,
+      countermovement: null,
+      kneeAngles: { takeoff: null, landing: null },
+      stanceLeg: null,
+      asymmetry: null,
+      landing: null,
+      jointAngles: null,
+      reachPx: null,
+      reachCm: null,
+      timingUncertainty: null,
+    },
+    {}
+  )
+}
+
+// Keep jumps in takeoff order; numbers stay with their jump through edits and discards
+export function sortJumps<T extends JumpResult>(jumps: T[]) {
+  return [...jumps].sort((a, b) => a.takeoffTime - b.takeoffTime)
+}
+
+// Hand-marked jumps take the next unused number
+export function nextJumpNumber(jumps: JumpResult[]) {
+  return jumps.reduce((max, jump) => Math.max(max, jump.jumpNumber), 0) + 1
+}
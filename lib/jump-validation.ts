@@ -0,0 +1,67 @@
+import type { JumpResult } from "./jump-detector"
+
+export interface JumpValidationOptions {
+  heightToleranceCm?: number // flight-time and ankle heights may differ by this much...
+  heightToleranceRatio?: number // ...or by this fraction of the flight-time height, whichever is larger
+  kneeFlexionTolerance?: number // degrees more knee bend at landing than at takeoff
+  tuckToleranceCm?: number // ankle rise beyond the centre-of-mass rise that counts as tucked legs
+}
+
+export type JumpIssueCode = "heightMismatch" | "bentKneeLanding" | "tuckedLegs"
+
+export interface JumpIssue {
+  code: JumpIssueCode
+  message: string
+}
+
+export interface JumpValidation {
+  valid: boolean
+  issues: JumpIssue[]
+}
+
+const DEFAULT_OPTIONS: Required<JumpValidationOptions> = {
+  heightToleranceCm: 5,
+  heightToleranceRatio: 0.2,
+  kneeFlexionTolerance: 20,
+  tuckToleranceCm: 8,
+}
+
+// Flight time is only a fair height measure if the body lands in the posture it took off in.
+// Cross-check it against the calibrated displacements and the knee angles at takeoff and landing.
+export function validateJump(jump: JumpResult, options: JumpValidationOptions = {}): JumpValidation {
+  const config = { ...DEFAULT_OPTIONS, ...options }
+  const issues: JumpIssue[] = []
+
+  if (jump.displacementCm !== null) {
+    const difference = jump.flightTimeHeightCm - jump.displacementCm
+    const tolerance = Math.max(config.heightToleranceCm, config.heightToleranceRatio * jump.flightTimeHeightCm)
+    if (Math.abs(difference) > tolerance) {
+      issues.push({
+        code: "heightMismatch",
+        message: `Flight-time height ${jump.flightTimeHeightCm.toFixed(1)} cm is ${Math.abs(difference).toFixed(1)} cm ${
+          difference > 0 ? "above" : "below"
+        } the measured ${jump.displacementCm.toFixed(1)} cm`,
+      })
+    }
+  }
+
+  const { takeoff, landing } = jump.kneeAngles
+  if (takeoff !== null && landing !== null && takeoff - landing > config.kneeFlexionTolerance) {
+    issues.push({
+      code: "bentKneeLanding",
+      message: `Landed with bent knees (${landing.toFixed(0)}° vs ${takeoff.toFixed(0)}° at takeoff), flight time overstated`,
+    })
+  }
+
+  if (jump.displacementCm !== null && jump.comDisplacementCm !== null) {
+    const tuck = jump.displacementCm - jump.comDisplacementCm
+    if (tuck > config.tuckToleranceCm) {
+      issues.push({
+        code: "tuckedLegs",
+        message: `Feet rose ${tuck.toFixed(1)} cm more than the centre of mass, legs tucked`,
+      })
+    }
+  }
+
+  return { valid: issues.length === 0, issues }
+}
@@ -0,0 +1,106 @@
+import { type Keypoint, findKeypoint } from "./pose"
+import { type Side, jointAngle } from "./joint-angles"
+
+const MIN_KEYPOINT_SCORE = 0.3
+
+// Front-view knee alignment in one frame
+export interface LandingPosture {
+  separationRatio: number | null // knee separation ÷ ankle separation; below 1 means knees inside ankles
+  kneeAngles: Record<Side, number | null> // frontal-plane projection angle, degrees; positive = valgus
+}
+
+// Sagittal knee flexion absorbed between initial contact and maximum flexion
+export interface LandingStiffness {
+  kneeFlexion: number // degrees
+  timeToMaxFlexion: number // s
+}
+
+// Posture at initial contact and at maximum knee flexion (lowest hips) after landing
+export interface LandingMechanics {
+  initialContact: LandingPosture
+  maxFlexion: LandingPosture | null
+  stiffness: LandingStiffness | null
+}
+
+export type ValgusRisk = "low" | "moderate" | "high"
+
+// Screening cut-offs in the spirit of the drop vertical jump test
+const RATIO_MODERATE = 0.8
+const RATIO_HIGH = 0.6
+const ANGLE_MODERATE = 8
+const ANGLE_HIGH = 15
+
+// Landings absorbed with less knee flexion than this are stiff
+const STIFF_KNEE_FLEXION = 45
+
+const legPoints = (keypoints: Keypoint[], side: Side) => {
+  const hip = findKeypoint(keypoints, `${side}_hip`, MIN_KEYPOINT_SCORE)
+  const knee = findKeypoint(keypoints, `${side}_knee`, MIN_KEYPOINT_SCORE)
+  const ankle = findKeypoint(keypoints, `${side}_ankle`, MIN_KEYPOINT_SCORE)
+  return hip && knee && ankle ? { hip, knee, ankle } : null
+}
+
+// Deviation of the knee from the hip-ankle line, signed by whether it collapses towards the midline
+export function frontalKneeAngle(keypoints: Keypoint[], side: Side) {
+  const leg = legPoints(keypoints, side)
+  const other = legPoints(keypoints, side === "left" ? "right" : "left")
+  if (!leg || !other) return null
+  const { hip, knee, ankle } = leg
+  const midline = (hip.x + other.hip.x) / 2
+  const along = ankle.y !== hip.y ? (knee.y - hip.y) / (ankle.y - hip.y) : 0.5
+  const lineX = hip.x + (ankle.x - hip.x) * along
+  const medial = Math.abs(lineX - midline) > Math.abs(knee.x - midline)
+  const deviation = 180 - jointAngle(hip, knee, ankle)
+  return medial ? deviation : -deviation
+}
+
+export function kneeAnkleSeparationRatio(keypoints: Keypoint[]) {
+  const left = legPoints(keypoints, "left")
+  const right = legPoints(keypoints, "right")
+  if (!left || !right) return null
+  const ankleSeparation = Math.abs(left.ankle.x - right.ankle.x)
+  return ankleSeparation > 0 ? Math.abs(left.knee.x - right.knee.x) / ankleSeparation : null
+}
+
+// Knee angles in degrees with 180 = straight, so flexion is how far the angle closed after contact
+export function landingStiffness(
+  contactKneeAngle: number | null,
+  maxFlexionKneeAngle: number | null,
+  timeToMaxFlexion: number
+): LandingStiffness | null {
+  if (contactKneeAngle === null || maxFlexionKneeAngle === null || timeToMaxFlexion <= 0) return null
+  return { kneeFlexion: Math.max(0, contactKneeAngle - maxFlexionKneeAngle), timeToMaxFlexion }
+}
+
+export function isStiffLanding(mechanics: LandingMechanics | null) {
+  return !!mechanics?.stiffness && mechanics.stiffness.kneeFlexion < STIFF_KNEE_FLEXION
+}
+
+export function measureLandingPosture(keypoints: Keypoint[]): LandingPosture {
+  return {
+    separationRatio: kneeAnkleSeparationRatio(keypoints),
+    kneeAngles: { left: frontalKneeAngle(keypoints, "left"), right: frontalKneeAngle(keypoints, "right") },
+  }
+}
+
+const postureRisk = (posture: LandingPosture): ValgusRisk | null => {
+  const angles = [posture.kneeAngles.left, posture.kneeAngles.right].filter((angle): angle is number => angle !== null)
+  if (posture.separationRatio === null && angles.length === 0) return null
+  const worstAngle = angles.length > 0 ? Math.max(...angles) : -Infinity
+  const ratio = posture.separationRatio ?? Infinity
+  if (ratio < RATIO_HIGH || worstAngle >= ANGLE_HIGH) return "high"
+  if (ratio < RATIO_MODERATE || worstAngle >= ANGLE_MODERATE) return "moderate"
+  return "low"
+}
+
+const RISK_ORDER: ValgusRisk[] = ["low", "moderate", "high"]
+
+// Worst dynamic valgus seen at initial contact or maximum flexion
+export function valgusRisk(mechanics: LandingMechanics | null): ValgusRisk | null {
+  if (!mechanics) return null
+  const risks = [postureRisk(mechanics.initialContact), mechanics.maxFlexion && postureRisk(mechanics.maxFlexion)].filter(
+    (risk): risk is ValgusRisk => !!risk
+  )
+  if (risks.length === 0) return null
+  return risks.reduce((worst, risk) => (RISK_ORDER.indexOf(risk) > RISK_ORDER.indexOf(worst) ? risk : worst))
+}
@@ -0,0 +1,48 @@
+import type { JumpResult } from "./jump-detector"
+import type { Side } from "./joint-angles"
+import { type HeightMethod, jumpHeightCm } from "./height-method"
+
+// LSI below this is commonly treated as not ready to return to play
+export const LSI_RETURN_TO_PLAY = 90
+
+export interface LegSet {
+  side: Side
+  jumps: JumpResult[]
+  bestHeightCm: number | null
+  meanHeightCm: number | null
+}
+
+export interface LimbSymmetry {
+  left: LegSet
+  right: LegSet
+  lsiBest: number | null // %, involved ÷ uninvolved best height
+  lsiMean: number | null // %, involved ÷ uninvolved mean height
+}
+
+const legSet = (side: Side, jumps: JumpResult[], method: HeightMethod): LegSet => {
+  const onLeg = jumps.filter((jump) => jump.stanceLeg === side)
+  const heights = onLeg.map((jump) => jumpHeightCm(jump, method)).filter((height): height is number => height !== null)
+  return {
+    side,
+    jumps: onLeg,
+    bestHeightCm: heights.length > 0 ? Math.max(...heights) : null,
+    meanHeightCm: heights.length > 0 ? heights.reduce((sum, height) => sum + height, 0) / heights.length : null,
+  }
+}
+
+export function limbSymmetryIndex(involved: number | null, uninvolved: number | null) {
+  return involved !== null && uninvolved !== null && uninvolved > 0 ? (involved / uninvolved) * 100 : null
+}
+
+// Split single-leg jumps by stance leg and compare the involved leg with the other
+export function limbSymmetry(jumps: JumpResult[], involved: Side, method: HeightMethod = "flightTime"): LimbSymmetry {
+  const left = legSet("left", jumps, method)
+  const right = legSet("right", jumps, method)
+  const [involvedSet, uninvolvedSet] = involved === "left" ? [left, right] : [right, left]
+  return {
+    left,
+    right,
+    lsiBest: limbSymmetryIndex(involvedSet.bestHeightCm, uninvolvedSet.bestHeightCm),
+    lsiMean: limbSymmetryIndex(involvedSet.meanHeightCm, uninvolvedSet.meanHeightCm),
+  }
+}
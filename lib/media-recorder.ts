@@ -0,0 +1,16 @@
+// Get a supported MIME type for MediaRecorder
+export function getSupportedMimeType() {
+  const types = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm", "video/mp4"]
+
+  for (const type of types) {
+    if (MediaRecorder.isTypeSupported(type)) {
+      return type
+    }
+  }
+
+  return "video/webm" // Fallback
+}
+
+export function fileExtensionForMimeType(mimeType: string) {
+  return mimeType.startsWith("video/mp4") ? "mp4" : "webm"
+}
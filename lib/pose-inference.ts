@@ -0,0 +1,108 @@
+import type { Pose, PoseDetector } from "@tensorflow-models/pose-detection"
+import { POSE_PROVIDERS, type PoseModel, loadPoseDetector } from "./pose-model"
+import { localBenchmarkStore } from "./tf-backend"
+import type { PoseWorkerRequest, PoseWorkerResponse } from "./pose-worker"
+
+type FrameSource = Parameters<PoseDetector["estimatePoses"]>[0]
+
+const supportsWorkerInference = () => typeof Worker !== "undefined"
+
+// Grab the current frame on the main thread; VideoFrame avoids a copy where WebCodecs is available
+async function captureFrame(image: FrameSource): Promise<VideoFrame | ImageBitmap> {
+  if (typeof VideoFrame !== "undefined" && image instanceof HTMLVideoElement) return new VideoFrame(image)
+  return createImageBitmap(image as ImageBitmapSource)
+}
+
+// MoveNet smooths by media time, which a copied frame no longer carries
+const mediaTime = (image: FrameSource) => (image instanceof HTMLVideoElement ? image.currentTime * 1000 : undefined)
+
+// A PoseDetector whose inference runs in a dedicated worker, one frame in flight per call
+async function createWorkerPoseDetector(model: PoseModel): Promise<PoseDetector> {
+  const worker = new Worker(new URL("./pose-worker.ts", import.meta.url))
+  const pending = new Map<number, { resolve: (poses: Pose[]) => void; reject: (err: Error) => void }>()
+  let nextId = 0
+  let loading: { resolve: () => void; reject: (err: Error) => void } | null = null
+
+  const post = (request: PoseWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer)
+
+  worker.addEventListener("message", (event: MessageEvent<PoseWorkerResponse>) => {
+    const message = event.data
+    switch (message.type) {
+      case "loaded":
+        loading?.resolve()
+        break
+      case "benchmark":
+        localBenchmarkStore.set(message.model, message.benchmark)
+        break
+      case "poses":
+        pending.get(message.id)?.resolve(message.poses)
+        pending.delete(message.id)
+        break
+      case "error":
+        if (message.id === null) {
+          loading?.reject(new Error(message.message))
+        } else {
+          pending.get(message.id)?.reject(new Error(message.message))
+          pending.delete(message.id)
+        }
+        break
+    }
+  })
+  worker.addEventListener("error", (event) => {
+    const err = new Error(event.message || "Pose worker crashed")
+    loading?.reject(err)
+    for (const request of pending.values()) request.reject(err)
+    pending.clear()
+  })
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      loading = { resolve, reject }
+      post({ type: "load", model, benchmark: localBenchmarkStore.get(model) })
+    })
+  } catch (err) {
+    worker.terminate()
+    throw err
+  } finally {
+    loading = null
+  }
+
+  return {
+    estimatePoses: async (image, config, timestamp) => {
+      const frame = await captureFrame(image)
+      const id = nextId++
+      return new Promise<Pose[]>((resolve, reject) => {
+        pending.set(id, { resolve, reject })
+        post(
+          {
+            type: "estimate",
+            id,
+            frame,
+            flipHorizontal: config?.flipHorizontal ?? false,
+            timestamp: timestamp ?? mediaTime(image),
+          },
+          [frame]
+        )
+      })
+    },
+    reset: () => post({ type: "reset" }),
+    dispose: () => {
+      worker.terminate()
+      for (const request of pending.values()) request.reject(new Error("Pose detector was disposed"))
+      pending.clear()
+    },
+  }
+}
+
+// Load the chosen pose detector, in a worker when the model and browser allow it
+export async function createPoseDetector(model: PoseModel = "lightning") {
+  // MediaPipe's runtime needs the DOM, so BlazePose stays on the main thread
+  if (POSE_PROVIDERS[model].runtime === "tfjs" && supportsWorkerInference()) {
+    try {
+      return await createWorkerPoseDetector(model)
+    } catch (err) {
+      console.warn("Pose worker unavailable, running inference on the main thread:", err)
+    }
+  }
+  return loadPoseDetector(model)
+}
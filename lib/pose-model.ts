@@ -0,0 +1,133 @@
+import * as poseDetection from "@tensorflow-models/pose-detection"
+import {
+  type BenchmarkStore,
+  activateBackend,
+  benchmarkBackends,
+  demoteBackend,
+  isFiniteKeypoint,
+  localBenchmarkStore,
+} from "./tf-backend"
+
+export type PoseModel = "lightning" | "thunder" | "multiPose" | "blazePose"
+
+export const POSE_MODEL_LABELS: Record<PoseModel, string> = {
+  lightning: "MoveNet Lightning (fast)",
+  thunder: "MoveNet Thunder (accurate)",
+  multiPose: "MoveNet MultiPose (several people)",
+  blazePose: "BlazePose (heel and toe points)",
+}
+
+// Loads one pose estimator; every provider yields keypoints named like MoveNet's
+export interface PoseProvider {
+  model: PoseModel
+  runtime: "tfjs" | "mediapipe" // only TF.js models run on a benchmarked backend
+  create: () => Promise<poseDetection.PoseDetector>
+}
+
+// Consecutive failed frames before the detector moves to the next backend
+const MAX_FRAME_FAILURES = 3
+
+const moveNet = (modelType: string) => () =>
+  poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, { modelType, enableSmoothing: true })
+
+// Callers track poses[0], so put the largest person (normally the athlete nearest the camera) first
+function largestFirst(detector: poseDetection.PoseDetector) {
+  const estimatePoses = detector.estimatePoses.bind(detector)
+  const area = (pose: poseDetection.Pose) => (pose.box?.width ?? 0) * (pose.box?.height ?? 0)
+  detector.estimatePoses = async (...args) => (await estimatePoses(...args)).sort((a, b) => area(b) - area(a))
+  return detector
+}
+
+export const POSE_PROVIDERS: Record<PoseModel, PoseProvider> = {
+  lightning: {
+    model: "lightning",
+    runtime: "tfjs",
+    create: moveNet(poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING),
+  },
+  thunder: {
+    model: "thunder",
+    runtime: "tfjs",
+    create: moveNet(poseDetection.movenet.modelType.SINGLEPOSE_THUNDER),
+  },
+  multiPose: {
+    model: "multiPose",
+    runtime: "tfjs",
+    create: async () => largestFirst(await moveNet(poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING)()),
+  },
+  // 33 keypoints including heels and toes; the MediaPipe runtime loads its wasm and model files from the CDN
+  blazePose: {
+    model: "blazePose",
+    runtime: "mediapipe",
+    create: () =>
+      poseDetection.createDetector(poseDetection.SupportedModels.BlazePose, {
+        runtime: "mediapipe",
+        modelType: "full",
+        enableSmoothing: true,
+        solutionPath: "https://cdn.jsdelivr.net/npm/@mediapipe/pose",
+      }),
+  },
+}
+
+// Load the model on the fastest backend that works, benchmarking on first run
+async function loadOnBestBackend(provider: PoseProvider, store: BenchmarkStore) {
+  let benchmark = store.get(provider.model)
+  if (!benchmark || benchmark.ranking.length === 0) {
+    benchmark = await benchmarkBackends(store, provider.model, provider.create)
+  }
+  for (const backend of benchmark.ranking) {
+    try {
+      if (!(await activateBackend(backend))) throw new Error("backend did not initialize")
+      const detector = await provider.create()
+      return { detector, backend }
+    } catch (err) {
+      console.warn(`Could not load the pose model on ${backend}:`, err)
+      demoteBackend(store, provider.model, backend)
+    }
+  }
+  throw new Error("no TensorFlow.js backend (WebGPU, WebGL or WASM) can run this model on this device")
+}
+
+// Wraps a TF.js detector so repeated failures or invalid output move it to the next-best backend
+async function createFallbackDetector(
+  provider: PoseProvider,
+  store: BenchmarkStore
+): Promise<poseDetection.PoseDetector> {
+  let { detector, backend } = await loadOnBestBackend(provider, store)
+  let failures = 0
+
+  const fallBack = async (cause: unknown) => {
+    console.warn(`Pose model failed on ${backend}, switching backend:`, cause)
+    detector.dispose()
+    demoteBackend(store, provider.model, backend)
+    const next = await loadOnBestBackend(provider, store)
+    detector = next.detector
+    backend = next.backend
+    failures = 0
+  }
+
+  return {
+    estimatePoses: async (...args) => {
+      try {
+        const poses = await detector.estimatePoses(...args)
+        if (!poses.every((pose) => pose.keypoints.every(isFiniteKeypoint))) {
+          throw new Error(`${backend} backend produced invalid keypoints`)
+        }
+        failures = 0
+        return poses
+      } catch (err) {
+        if (++failures < MAX_FRAME_FAILURES) throw err
+        await fallBack(err)
+        return detector.estimatePoses(...args)
+      }
+    },
+    dispose: () => detector.dispose(),
+    reset: () => detector.reset(),
+  }
+}
+
+// Load the chosen pose detector on this thread; TF.js models pick and fall back between backends on their own
+export async function loadPoseDetector(model: PoseModel, store: BenchmarkStore = localBenchmarkStore) {
+  const provider = POSE_PROVIDERS[model]
+  if (provider.runtime === "mediapipe") return provider.create()
+  return createFallbackDetector(provider, store)
+}
@@ -0,0 +1,92 @@
+import type { Keypoint } from "./pose"
+import type { Calibration } from "./calibration"
+import { type FrameSample, type JumpDetectorOptions, type JumpResult, createJumpDetector } from "./jump-detector"
+
+export const POSE_TRACE_VERSION = 1
+
+// Every pose the detector returned for one frame
+export interface TracedFrame {
+  timestamp: number // ms
+  poses: { keypoints: Keypoint[] }[]
+}
+
+export interface PoseTrace {
+  version: number
+  createdAt: string
+  frameWidth: number
+  frameHeight: number
+  frames: TracedFrame[]
+}
+
+export interface TraceRecorder {
+  record: (timestamp: number, poses: { keypoints: Keypoint[] }[]) => void
+  finish: () => PoseTrace | null
+}
+
+export function createTraceRecorder(frameWidth: number, frameHeight: number): TraceRecorder {
+  const frames: TracedFrame[] = []
+  return {
+    record: (timestamp, poses) => {
+      // Copy only what replay needs so detector-owned objects aren't retained
+      frames.push({
+        timestamp,
+        poses: poses.map((pose) => ({
+          keypoints: pose.keypoints.map(({ x, y, score, name }) => ({ x, y, score, name })),
+        })),
+      })
+    },
+    finish: () =>
+      frames.length > 0
+        ? { version: POSE_TRACE_VERSION, createdAt: new Date().toISOString(), frameWidth, frameHeight, frames }
+        : null,
+  }
+}
+
+export function serializeTrace(trace: PoseTrace) {
+  return JSON.stringify(trace)
+}
+
+export function parseTrace(json: string): PoseTrace {
+  const trace = JSON.parse(json)
+  if (!trace || typeof trace !== "object" || !Array.isArray(trace.frames)) {
+    throw new Error("Not a pose trace file")
+  }
+  if (trace.version !== POSE_TRACE_VERSION) {
+    throw new Error(`Unsupported pose trace version: ${trace.version}`)
+  }
+  if (typeof trace.frameHeight !== "number" || trace.frameHeight <= 0) {
+    throw new Error("Pose trace is missing its frame size")
+  }
+  return trace as PoseTrace
+}
+
+export interface TraceReplay {
+  samples: FrameSample[]
+  jumps: JumpResult[]
+}
+
+// Feed a recorded trace through a fresh jump detector; the same trace always gives the same jumps
+export function replayTrace(
+  trace: PoseTrace,
+  options: JumpDetectorOptions & { calibration?: Calibration | null } = {}
+): TraceReplay {
+  const { calibration = null, ...detectorOptions } = options
+  const detector = createJumpDetector(detectorOptions)
+  detector.setCalibration(calibration)
+
+  const jumps: JumpResult[] = []
+  detector.on("jump", (result) => jumps.push(result))
+
+  const samples: FrameSample[] = []
+  for (const frame of trace.frames) {
+    if (frame.poses.length === 0) continue
+    const sample = detector.processFrame({
+      timestamp: frame.timestamp,
+      frameHeight: trace.frameHeight,
+      keypoints: frame.poses[0].keypoints,
+    })
+    if (sample) samples.push(sample)
+  }
+  detector.flush()
+  return { samples, jumps }
+}
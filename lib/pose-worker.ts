@@ -0,0 +1,74 @@
+import type { Pose, PoseDetector } from "@tensorflow-models/pose-detection"
+import { type PoseModel, loadPoseDetector } from "./pose-model"
+import type { BackendBenchmark, BenchmarkStore } from "./tf-backend"
+
+// Runs a TF.js pose model off the main thread. Frames arrive as transferred
+// VideoFrames or ImageBitmaps and reach the model as ImageBitmaps.
+
+export type PoseWorkerRequest =
+  | { type: "load"; model: PoseModel; benchmark: BackendBenchmark | null }
+  | { type: "estimate"; id: number; frame: VideoFrame | ImageBitmap; flipHorizontal: boolean; timestamp?: number }
+  | { type: "reset" }
+
+export type PoseWorkerResponse =
+  | { type: "loaded" }
+  | { type: "benchmark"; model: PoseModel; benchmark: BackendBenchmark }
+  | { type: "poses"; id: number; poses: Pose[] }
+  | { type: "error"; id: number | null; message: string }
+
+let detector: PoseDetector | null = null
+
+const respond = (message: PoseWorkerResponse) => self.postMessage(message)
+
+// Seeded with the page's cached benchmark; new results go back to the page to be saved
+function relayStore(model: PoseModel, benchmark: BackendBenchmark | null): BenchmarkStore {
+  let cached = benchmark
+  return {
+    get: () => cached,
+    set: (_key, next) => {
+      cached = next
+      respond({ type: "benchmark", model, benchmark: next })
+    },
+  }
+}
+
+async function toImageBitmap(frame: VideoFrame | ImageBitmap) {
+  if (frame instanceof ImageBitmap) return frame
+  try {
+    return await createImageBitmap(frame)
+  } finally {
+    frame.close()
+  }
+}
+
+self.addEventListener("message", async (event: MessageEvent<PoseWorkerRequest>) => {
+  const request = event.data
+  switch (request.type) {
+    case "load":
+      try {
+        detector?.dispose()
+        detector = await loadPoseDetector(request.model, relayStore(request.model, request.benchmark))
+        respond({ type: "loaded" })
+      } catch (err) {
+        respond({ type: "error", id: null, message: err instanceof Error ? err.message : String(err) })
+      }
+      break
+    case "estimate": {
+      let image: ImageBitmap | null = null
+      try {
+        image = await toImageBitmap(request.frame)
+        if (!detector) throw new Error("Pose model is not loaded")
+        const poses = await detector.estimatePoses(image, { flipHorizontal: request.flipHorizontal }, request.timestamp)
+        respond({ type: "poses", id: request.id, poses })
+      } catch (err) {
+        respond({ type: "error", id: request.id, message: err instanceof Error ? err.message : String(err) })
+      } finally {
+        image?.close()
+      }
+      break
+    }
+    case "reset":
+      detector?.reset()
+      break
+  }
+})
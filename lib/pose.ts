@@ -0,0 +1,18 @@
+// Framework-free pose types, structurally compatible with @tensorflow-models/pose-detection
+export interface Keypoint {
+  x: number
+  y: number
+  score?: number
+  name?: string
+}
+
+// One timestamped set of keypoints in video pixel coordinates
+export interface PoseFrame {
+  timestamp: number // ms
+  frameHeight: number // px
+  keypoints: Keypoint[]
+}
+
+export function findKeypoint(keypoints: Keypoint[], name: string, minScore = 0) {
+  return keypoints.find((kp) => kp.name === name && (kp.score === undefined || kp.score > minScore))
+}
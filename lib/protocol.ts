@@ -0,0 +1,12 @@
+// Test the athlete is performing; decides which results are shown for a session
+export type JumpProtocol = "standard" | "singleLeg" | "dropJump" | "repeatedHops"
+
+export const PROTOCOL_LABELS: Record<JumpProtocol, string> = {
+  standard: "Vertical Jump",
+  singleLeg: "Single-Leg Jump",
+  dropJump: "Drop Jump (RSI)",
+  repeatedHops: "10/5 Repeated Hops",
+}
+
+// Protocols scored on ground contact time
+export const isReactiveProtocol = (protocol: JumpProtocol) => protocol === "dropJump" || protocol === "repeatedHops"
@@ -0,0 +1,37 @@
+import { type Keypoint, findKeypoint } from "./pose"
+import { type Calibration, pixelsToCm } from "./calibration"
+
+// Standing and jump reach must read wrists and ankles of the same confidence
+export const REACH_KEYPOINT_SCORE = 0.3
+
+// Wrists see where the hand is, not the fingertips, and ankles sit above the floor.
+// Both gaps scale with stature: ankle joint ~3.9%, hand length ~10.8%.
+const ANKLE_HEIGHT_STATURE_RATIO = 0.039
+const HAND_LENGTH_STATURE_RATIO = 0.108
+
+// Highest visible wrist above the lowest visible ankle, in px
+export function wristAboveAnkle(keypoints: Keypoint[]) {
+  const wrists = ["left_wrist", "right_wrist"]
+    .map((name) => findKeypoint(keypoints, name, REACH_KEYPOINT_SCORE))
+    .filter((kp): kp is Keypoint => !!kp)
+  const ankles = ["left_ankle", "right_ankle"]
+    .map((name) => findKeypoint(keypoints, name, REACH_KEYPOINT_SCORE))
+    .filter((kp): kp is Keypoint => !!kp)
+  if (wrists.length === 0 || ankles.length === 0) return null
+  return Math.max(...ankles.map((kp) => kp.y)) - Math.min(...wrists.map((kp) => kp.y))
+}
+
+// Floor-to-ankle plus wrist-to-fingertip, when the athlete's height is known
+export function reachOffsetCm(statureCm: number | null) {
+  return statureCm ? (ANKLE_HEIGHT_STATURE_RATIO + HAND_LENGTH_STATURE_RATIO) * statureCm : 0
+}
+
+// Fingertip reach above the floor from a wrist height above the ankles
+export function reachCm(wristAboveAnklePx: number, calibration: Calibration, statureCm: number | null) {
+  return pixelsToCm(wristAboveAnklePx, calibration) + reachOffsetCm(statureCm)
+}
+
+// Virtual Vertec: how far above standing reach the hand got
+export function netReachCm(jumpReachCm: number, standingReachCm: number) {
+  return jumpReachCm - standingReachCm
+}
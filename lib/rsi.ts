@@ -0,0 +1,63 @@
+import type { JumpResult } from "./jump-detector"
+
+export type RsiMethod = "flightTime" | "height"
+
+// Jumps per 10/5 repeated jump test and how many of the best count towards the score
+export const REPEATED_JUMP_REPS = 10
+export const REPEATED_JUMP_BEST = 5
+
+export interface RsiRep {
+  jumpNumber: number
+  contactTime: number // s
+  flightTime: number // s
+  heightCm: number
+  rsi: number
+}
+
+export interface RepeatedJumpResult {
+  reps: RsiRep[] // first REPEATED_JUMP_REPS timed contacts
+  best: RsiRep[] // highest RSI first
+  averageRsi: number
+  averageContactTime: number // s
+  averageHeightCm: number
+  complete: boolean
+}
+
+// Reactive strength index: flight time ÷ contact time, or height (m) ÷ contact time (m/s)
+export function reactiveStrengthIndex(jump: JumpResult, method: RsiMethod = "flightTime") {
+  if (!jump.contactTime || jump.contactTime <= 0) return null
+  return method === "flightTime" ? jump.flightTime / jump.contactTime : jump.flightTimeHeightCm / 100 / jump.contactTime
+}
+
+// Jumps that followed a timed ground contact, with their RSI
+export function rsiReps(jumps: JumpResult[], method: RsiMethod = "flightTime"): RsiRep[] {
+  const reps: RsiRep[] = []
+  for (const jump of jumps) {
+    const rsi = reactiveStrengthIndex(jump, method)
+    if (rsi === null || jump.contactTime === null) continue
+    reps.push({
+      jumpNumber: jump.jumpNumber,
+      contactTime: jump.contactTime,
+      flightTime: jump.flightTime,
+      heightCm: jump.flightTimeHeightCm,
+      rsi,
+    })
+  }
+  return reps
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0)
+
+// 10/5 repeated jump test: ten hops, scored on the mean of the five best RSIs
+export function repeatedJumpTest(jumps: JumpResult[], method: RsiMethod = "flightTime"): RepeatedJumpResult {
+  const reps = rsiReps(jumps, method).slice(0, REPEATED_JUMP_REPS)
+  const best = [...reps].sort((a, b) => b.rsi - a.rsi).slice(0, REPEATED_JUMP_BEST)
+  return {
+    reps,
+    best,
+    averageRsi: average(best.map((rep) => rep.rsi)),
+    averageContactTime: average(best.map((rep) => rep.contactTime)),
+    averageHeightCm: average(best.map((rep) => rep.heightCm)),
+    complete: reps.length >= REPEATED_JUMP_REPS,
+  }
+}
@@ -0,0 +1,203 @@
+import type { Calibration } from "./calibration"
+import type { JumpResult } from "./jump-detector"
+import type { JumpProtocol } from "./protocol"
+import { SESSION_STORE, createRecordId, withStore } from "./db"
+
+// Bump when the shape of StoredSession changes and add a step to migrateSession
+export const SESSION_SCHEMA_VERSION = 13
+
+export interface SessionDatum {
+  timestamp: number
+  leftFoot: number
+  rightFoot: number
+  minHeight: number
+  // Sagittal joint angles in degrees; absent in sessions recorded before they were tracked
+  hipAngle?: number | null
+  kneeAngle?: number | null
+  ankleAngle?: number | null
+}
+
+// A jump plus where it sits on the session's chart
+export type SessionJump = JumpResult & { timestamp: number } // s from session start
+
+export type SessionSource = "live" | "recording" | "upload" | "trace"
+
+export interface SessionSettings {
+  calibration: Calibration | null
+  facingMode: "user" | "environment"
+  protocol: JumpProtocol
+}
+
+export interface StoredSession {
+  id: string
+  schemaVersion: number
+  createdAt: number // ms since epoch
+  source: SessionSource
+  athleteId: string | null
+  jumps: SessionJump[]
+  timeSeries: SessionDatum[]
+  settings: SessionSettings
+  video: Blob | null
+}
+
+export type NewSession = Omit<StoredSession, "id" | "schemaVersion" | "createdAt">
+
+// Records written by older releases lack the fields later versions added
+type LegacySession = Omit<Partial<StoredSession>, "schemaVersion" | "jumps" | "settings"> & {
+  schemaVersion: number
+  jumps: Partial<SessionJump>[]
+  settings: Partial<SessionSettings>
+}
+
+const isLegacySession = (record: unknown): record is LegacySession =>
+  typeof record === "object" &&
+  record !== null &&
+  typeof (record as LegacySession).schemaVersion === "number" &&
+  Array.isArray((record as LegacySession).jumps)
+
+// Bring records written by older releases up to the current schema
+export function migrateSession(record: unknown): StoredSession {
+  if (!isLegacySession(record) || record.schemaVersion > SESSION_SCHEMA_VERSION) {
+    throw new Error(`Unsupported session schema version: ${(record as { schemaVersion?: unknown } | null)?.schemaVersion}`)
+  }
+  let session: LegacySession = record
+  // Version 2 attributes sessions to an athlete
+  if (session.schemaVersion < 2) {
+    session = { ...session, schemaVersion: 2, athleteId: null }
+  }
+  // Version 3 records the test protocol and ground contact times
+  if (session.schemaVersion < 3) {
+    session = {
+      ...session,
+      schemaVersion: 3,
+      settings: { ...session.settings, protocol: "standard" },
+      jumps: session.jumps.map((jump) => ({ ...jump, contactTime: null })),
+    }
+  }
+  // Version 4 segments countermovement phases
+  if (session.schemaVersion < 4) {
+    session = {
+      ...session,
+      schemaVersion: 4,
+      jumps: session.jumps.map((jump) => ({ ...jump, countermovement: null })),
+    }
+  }
+  // Version 5 measures centre-of-mass displacement
+  if (session.schemaVersion < 5) {
+    session = {
+      ...session,
+      schemaVersion: 5,
+      jumps: session.jumps.map((jump) => ({ ...jump, comDisplacementPx: null, comDisplacementCm: null })),
+    }
+  }
+  // Version 6 records knee angles at takeoff and landing
+  if (session.schemaVersion < 6) {
+    session = {
+      ...session,
+      schemaVersion: 6,
+      jumps: session.jumps.map((jump) => ({ ...jump, kneeAngles: { takeoff: null, landing: null } })),
+    }
+  }
+  // Version 7 records the stance leg for single-leg jumps
+  if (session.schemaVersion < 7) {
+    session = {
+      ...session,
+      schemaVersion: 7,
+      jumps: session.jumps.map((jump) => ({ ...jump, stanceLeg: null })),
+    }
+  }
+  // Version 8 measures bilateral asymmetry
+  if (session.schemaVersion < 8) {
+    session = {
+      ...session,
+      schemaVersion: 8,
+      jumps: session.jumps.map((jump) => ({ ...jump, asymmetry: null })),
+    }
+  }
+  // Version 9 screens landing mechanics
+  if (session.schemaVersion < 9) {
+    session = {
+      ...session,
+      schemaVersion: 9,
+      jumps: session.jumps.map((jump) => ({ ...jump, landing: null })),
+    }
+  }
+  // Version 10 reports joint angles at takeoff, peak and landing
+  if (session.schemaVersion < 10) {
+    session = {
+      ...session,
+      schemaVersion: 10,
+      jumps: session.jumps.map((jump) => ({ ...jump, jointAngles: null })),
+    }
+  }
+  // Version 11 measures jump reach from the wrists
+  if (session.schemaVersion < 11) {
+    session = {
+      ...session,
+      schemaVersion: 11,
+      jumps: session.jumps.map((jump) => ({ ...jump, reachPx: null, reachCm: null })),
+    }
+  }
+  // Version 12 reports flight-time uncertainty from the frame timing
+  if (session.schemaVersion < 12) {
+    session = {
+      ...session,
+      schemaVersion: 12,
+      jumps: session.jumps.map((jump) => ({ ...jump, timingUncertainty: null })),
+    }
+  }
+  // Version 13 measures landing stiffness
+  if (session.schemaVersion < 13) {
+    session = {
+      ...session,
+      schemaVersion: 13,
+      jumps: session.jumps.map((jump) => ({
+        ...jump,
+        landing: jump.landing && { ...jump.landing, stiffness: null },
+      })),
+    }
+  }
+  return session as StoredSession
+}
+
+export async function saveSession(session: NewSession): Promise<StoredSession> {
+  const stored: StoredSession = {
+    ...session,
+    id: createRecordId(),
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    createdAt: Date.now(),
+  }
+  await withStore(SESSION_STORE, "readwrite", (store) => store.put(stored))
+  return stored
+}
+
+export async function updateSession(id: string, changes: Partial<NewSession>) {
+  const existing = await getSession(id)
+  if (!existing) return null
+  const updated = { ...existing, ...changes }
+  await withStore(SESSION_STORE, "readwrite", (store) => store.put(updated))
+  return updated
+}
+
+export async function getSession(id: string) {
+  const record = await withStore(SESSION_STORE, "readonly", (store) => store.get(id))
+  return record ? migrateSession(record) : null
+}
+
+// Newest first; records that cannot be migrated are skipped
+export async function listSessions() {
+  const records = await withStore(SESSION_STORE, "readonly", (store) => store.getAll())
+  const sessions: StoredSession[] = []
+  for (const record of records) {
+    try {
+      sessions.push(migrateSession(record))
+    } catch (err) {
+      console.error("Skipping unreadable session:", err)
+    }
+  }
+  return sessions.sort((a, b) => b.createdAt - a.createdAt)
+}
+
+export async function deleteSession(id: string) {
+  await withStore(SESSION_STORE, "readwrite", (store) => store.delete(id))
+}
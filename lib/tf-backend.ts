@@ -0,0 +1,156 @@
+import * as tf from "@tensorflow/tfjs"
+import "@tensorflow/tfjs-backend-webgl"
+import "@tensorflow/tfjs-backend-wasm"
+import "@tensorflow/tfjs-backend-webgpu"
+import type { PoseDetector } from "@tensorflow-models/pose-detection"
+import type { Keypoint } from "./pose"
+
+export type TfBackend = "webgpu" | "webgl" | "wasm"
+
+// WASM runs in full float32 precision, so it is benchmarked first and used as the reference
+const REFERENCE_BACKEND: TfBackend = "wasm"
+const CANDIDATES: TfBackend[] = [REFERENCE_BACKEND, "webgl", "webgpu"]
+const BENCHMARK_KEY = "verticai-tf-backends"
+const BENCHMARK_FRAMES = 5
+const MAX_DEVIATION = 0.05 // mean keypoint distance from the reference, as a fraction of the frame width
+
+export interface BackendBenchmark {
+  ranking: TfBackend[] // usable backends, fastest first
+  msPerFrame: Partial<Record<TfBackend, number>>
+  verified: boolean // keypoints were checked against the WASM reference; false when WASM could not run
+  benchmarkedAt: number // ms since epoch
+}
+
+// Benchmarks are per pose model, since models favour different backends
+type BenchmarkCache = Record<string, BackendBenchmark>
+
+function readCache(): BenchmarkCache {
+  try {
+    return JSON.parse(localStorage.getItem(BENCHMARK_KEY) ?? "{}")
+  } catch {
+    return {}
+  }
+}
+
+function writeCache(key: string, benchmark: BackendBenchmark) {
+  localStorage.setItem(BENCHMARK_KEY, JSON.stringify({ ...readCache(), [key]: benchmark }))
+}
+
+// Where benchmarks are kept; workers have no localStorage and relay results to the page
+export interface BenchmarkStore {
+  get: (key: string) => BackendBenchmark | null
+  set: (key: string, benchmark: BackendBenchmark) => void
+}
+
+export const localBenchmarkStore: BenchmarkStore = {
+  get: (key) => readCache()[key] ?? null,
+  set: writeCache,
+}
+
+// Drop a backend that failed at runtime so it is not picked again on this device
+export function demoteBackend(store: BenchmarkStore, key: string, backend: TfBackend) {
+  const benchmark = store.get(key)
+  if (!benchmark) return
+  store.set(key, { ...benchmark, ranking: benchmark.ranking.filter((candidate) => candidate !== backend) })
+}
+
+export async function activateBackend(backend: TfBackend) {
+  await tf.ready()
+  try {
+    return await tf.setBackend(backend)
+  } catch (err) {
+    console.warn(`TF.js backend ${backend} is not available:`, err)
+    return false
+  }
+}
+
+export const isFiniteKeypoint = (kp: Keypoint) =>
+  Number.isFinite(kp.x) && Number.isFinite(kp.y) && (kp.score === undefined || Number.isFinite(kp.score))
+
+// Deterministic test frame: a gradient with a light figure-sized block, so every backend sees the same pixels
+function benchmarkFrame(width = 640, height = 480) {
+  const image = new ImageData(width, height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      const inFigure = Math.abs(x - width / 2) < width / 12 && y > height / 8 && y < (height * 7) / 8
+      image.data[i] = inFigure ? 220 : (x / width) * 255
+      image.data[i + 1] = inFigure ? 180 : (y / height) * 255
+      image.data[i + 2] = inFigure ? 160 : 96
+      image.data[i + 3] = 255
+    }
+  }
+  return image
+}
+
+// Mean distance between matching keypoints of two runs
+function keypointDeviation(a: Keypoint[], b: Keypoint[]) {
+  if (a.length === 0 && b.length === 0) return 0 // no pose found by either
+  if (a.length !== b.length) return Infinity
+  return a.reduce((sum, kp, i) => sum + Math.hypot(kp.x - b[i].x, kp.y - b[i].y), 0) / a.length
+}
+
+interface BackendRun {
+  backend: TfBackend
+  msPerFrame: number
+  keypoints: Keypoint[]
+}
+
+async function runBackend(
+  backend: TfBackend,
+  create: () => Promise<PoseDetector>,
+  frame: ImageData
+): Promise<BackendRun | null> {
+  if (!(await activateBackend(backend))) return null
+  let detector: PoseDetector | null = null
+  try {
+    detector = await create()
+    // The first call compiles shaders and is not timed
+    await detector.estimatePoses(frame, {}, 0)
+    let keypoints: Keypoint[] = []
+    const start = performance.now()
+    for (let i = 1; i <= BENCHMARK_FRAMES; i++) {
+      const poses = await detector.estimatePoses(frame, {}, i * 33)
+      keypoints = poses[0]?.keypoints ?? []
+      if (!keypoints.every(isFiniteKeypoint)) {
+        console.warn(`TF.js backend ${backend} produced invalid keypoints`)
+        return null
+      }
+    }
+    return { backend, msPerFrame: (performance.now() - start) / BENCHMARK_FRAMES, keypoints }
+  } catch (err) {
+    console.warn(`TF.js backend ${backend} failed the benchmark:`, err)
+    return null
+  } finally {
+    detector?.dispose()
+  }
+}
+
+// Time each backend on a few frames of the model and rank the ones that agree with the reference
+export async function benchmarkBackends(
+  store: BenchmarkStore,
+  key: string,
+  create: () => Promise<PoseDetector>
+): Promise<BackendBenchmark> {
+  const frame = benchmarkFrame()
+  const runs: BackendRun[] = []
+  for (const backend of CANDIDATES) {
+    const run = await runBackend(backend, create, frame)
+    if (run) runs.push(run)
+  }
+
+  // Without the reference there is nothing to compare against, so every working backend is kept
+  const reference = runs.find((run) => run.backend === REFERENCE_BACKEND)
+  const stable = reference
+    ? runs.filter((run) => keypointDeviation(run.keypoints, reference.keypoints) <= MAX_DEVIATION * frame.width)
+    : runs
+  const benchmark: BackendBenchmark = {
+    ranking: stable.sort((a, b) => a.msPerFrame - b.msPerFrame).map((run) => run.backend),
+    msPerFrame: Object.fromEntries(runs.map((run) => [run.backend, Math.round(run.msPerFrame)])),
+    verified: reference !== undefined,
+    benchmarkedAt: Date.now(),
+  }
+  // Nothing worked: benchmark again next time rather than caching the failure
+  if (benchmark.ranking.length > 0) store.set(key, benchmark)
+  return benchmark
+}
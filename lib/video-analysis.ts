@@ -0,0 +1,72 @@
+import type { PoseDetector } from "@tensorflow-models/pose-detection"
+import { type PoseTrace, createTraceRecorder } from "./pose-trace"
+
+export interface VideoAnalysisOptions {
+  frameRate?: number // frames per second of media time to sample
+  slowMotionFactor?: number // media seconds per real second (e.g. 8 for 240 fps played back at 30 fps)
+  flipHorizontal?: boolean
+  onProgress?: (fraction: number) => void
+  signal?: AbortSignal
+}
+
+// Resolve once the video has finished seeking to the requested media time
+function seekTo(video: HTMLVideoElement, time: number) {
+  return new Promise<void>((resolve, reject) => {
+    const onSeeked = () => {
+      video.removeEventListener("error", onError)
+      resolve()
+    }
+    const onError = () => {
+      video.removeEventListener("seeked", onSeeked)
+      reject(new Error("Could not decode video frame"))
+    }
+    video.addEventListener("seeked", onSeeked, { once: true })
+    video.addEventListener("error", onError, { once: true })
+    video.currentTime = time
+  })
+}
+
+// MediaRecorder WebM files report an Infinity duration until the end has been seeked to
+async function resolveDuration(video: HTMLVideoElement) {
+  if (video.readyState < HTMLMediaElement.HAVE_METADATA) {
+    await new Promise<void>((resolve) => video.addEventListener("loadedmetadata", () => resolve(), { once: true }))
+  }
+  if (video.duration === Infinity) {
+    await seekTo(video, Number.MAX_SAFE_INTEGER)
+  }
+  return video.duration
+}
+
+// Step through a loaded video by seeking frame by frame and record every pose.
+// Timestamps are real-world milliseconds derived from the media time.
+export async function analyzeVideo(
+  video: HTMLVideoElement,
+  detector: PoseDetector,
+  { frameRate = 30, slowMotionFactor = 1, flipHorizontal = false, onProgress, signal }: VideoAnalysisOptions = {}
+): Promise<PoseTrace | null> {
+  video.pause()
+  const duration = await resolveDuration(video)
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw new Error("Video has no playable duration")
+  }
+  detector.reset()
+
+  const recorder = createTraceRecorder(video.videoWidth || 640, video.videoHeight || 480)
+  const frameInterval = 1 / frameRate
+  const frameCount = Math.floor(duration * frameRate)
+
+  for (let frame = 0; frame <= frameCount; frame++) {
+    if (signal?.aborted) {
+      throw new DOMException("Video analysis was cancelled", "AbortError")
+    }
+    const mediaTime = Math.min(frame * frameInterval, duration)
+    await seekTo(video, mediaTime)
+
+    const timestamp = (mediaTime * 1000) / slowMotionFactor
+    const poses = await detector.estimatePoses(video, { flipHorizontal }, timestamp)
+    recorder.record(timestamp, poses)
+    onProgress?.(frameCount > 0 ? frame / frameCount : 1)
+  }
+
+  return recorder.finish()
+}